@@ -9,8 +9,8 @@ import VictoryScreen from './components/VictoryScreen';
 const AppContent: React.FC = () => {
   const { isInLobby, lobbyState, gameState } = usePeer();
   
-  // Show victory screen if the game is over and there's a winner
-  if (isInLobby && gameState?.gameOver && gameState?.winner) {
+  // Show victory screen once the game is over, whether someone won or it was a draw
+  if (isInLobby && gameState?.gameOver && gameState?.outcome) {
     return <VictoryScreen />;
   }
   
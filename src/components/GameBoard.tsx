@@ -1,7 +1,43 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components';
 import { usePeer } from '../contexts/PeerContext';
-import { GRID_SIZE, ConstructType, FACTION_INFO } from '../types';
+import {
+  ActionRejection,
+  ConstructType,
+  DISCONNECT_GRACE_TICKS,
+  Faction,
+  FACTION_INFO,
+  MAX_CONSTRUCT_LEVEL,
+  Player,
+  PresenceStatus,
+  REJECTION_MESSAGES,
+  Terrain,
+  TERRAIN_INFO,
+  TICK_MS,
+  UNSUPPLIED_DECAY_MS,
+  UNSUPPLIED_DECAY_TICKS
+} from '../types';
+import {
+  CAPTURED_CONSTRUCT_OUTPUT,
+  getClaimableTiles,
+  getConstructCost,
+  getConstructRate,
+  getConstructTier,
+  getConversionCost,
+  getDominationTiles,
+  getAbilityCooldownTicks,
+  getAbilityState,
+  getAttackableTiles,
+  getBattleOdds,
+  getDurationTicks,
+  getHillHoldTicks,
+  getHillTile,
+  getPresence,
+  getTileDefense,
+  isSupplied
+} from '../engine';
+import HostChangeBanner from './HostChangeBanner';
+import SuspiciousPeerBanner from './SuspiciousPeerBanner';
 
 const Container = styled.div`
   display: flex;
@@ -19,14 +55,6 @@ const Title = styled.h1`
   color: #61dafb;
 `;
 
-const GameInfo = styled.div`
-  display: flex;
-  justify-content: space-between;
-  width: 100%;
-  max-width: 800px;
-  margin-bottom: 1.5rem;
-`;
-
 const ResourcesContainer = styled.div`
   display: flex;
   flex-direction: column;
@@ -51,11 +79,13 @@ const ResourceLabel = styled.div`
   gap: 0.5rem;
 `;
 
-const ResourceIcon = styled.div<{ type: 'gold' | 'unit' }>`
+const RESOURCE_ICON_COLORS = { gold: '#ffd700', unit: '#f87171', ability: '#c084fc' };
+
+const ResourceIcon = styled.div<{ type: keyof typeof RESOURCE_ICON_COLORS }>`
   width: 1.5rem;
   height: 1.5rem;
   border-radius: 50%;
-  background-color: ${props => props.type === 'gold' ? '#ffd700' : '#f87171'};
+  background-color: ${props => RESOURCE_ICON_COLORS[props.type]};
   display: flex;
   align-items: center;
   justify-content: center;
@@ -73,6 +103,23 @@ const ResourceRate = styled.div`
   opacity: 0.7;
 `;
 
+const AbilityButton = styled.button`
+  padding: 0.25rem 0.75rem;
+  font-size: 0.85rem;
+  font-weight: bold;
+  background-color: #c084fc;
+  color: #282c34;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:disabled {
+    background-color: #4a5568;
+    color: white;
+    cursor: not-allowed;
+  }
+`;
+
 const TimerContainer = styled.div`
   background-color: #3a3f4b;
   padding: 0.75rem 1.5rem;
@@ -93,6 +140,16 @@ const PlayerList = styled.div`
   max-width: 800px;
 `;
 
+const TeamGroup = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+`;
+
+const TeamHeader = styled.div`
+  font-weight: bold;
+`;
+
 const PlayerCard = styled.div<{ active?: boolean, color: string }>`
   background-color: #3a3f4b;
   border: ${props => props.active ? `2px solid ${props.color}` : '2px solid transparent'};
@@ -102,12 +159,6 @@ const PlayerCard = styled.div<{ active?: boolean, color: string }>`
   box-shadow: 0 2px 4px rgba(0, 0, 0, 0.2);
 `;
 
-const PlayerInfo = styled.div`
-  display: flex;
-  flex-direction: column;
-  align-items: center;
-`;
-
 const PlayerHeader = styled.div`
   display: flex;
   align-items: center;
@@ -124,6 +175,31 @@ const ColorIndicator = styled.div<{ color: string }>`
   display: inline-block;
 `;
 
+const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  connected: '#4ade80',
+  reconnecting: '#fbbf24',
+  frozen: '#94a3b8',
+  bot: '#60a5fa',
+  forfeited: '#f87171'
+};
+
+const ConnectionStatus = styled.div<{ status: PresenceStatus }>`
+  display: flex;
+  align-items: center;
+  font-size: 0.8rem;
+  margin-bottom: 0.5rem;
+  color: ${props => PRESENCE_COLORS[props.status]};
+  
+  &::before {
+    content: '';
+    width: 0.5rem;
+    height: 0.5rem;
+    border-radius: 50%;
+    background-color: ${props => PRESENCE_COLORS[props.status]};
+    margin-right: 0.5rem;
+  }
+`;
+
 const PlayerStats = styled.div`
   display: flex;
   flex-direction: column;
@@ -152,12 +228,26 @@ const GridRow = styled.div`
   display: flex;
 `;
 
-const GridCell = styled.div<{ owner: string | null, color: string | null, isClaimable: boolean, hasConstruct: boolean }>`
+const UNSUPPLIED_STRIPES = 'repeating-linear-gradient(45deg, rgba(0, 0, 0, 0.45) 0 3px, transparent 3px 6px)';
+
+const GridCell = styled.div<{
+  owner: string | null,
+  color: string | null,
+  terrain: Terrain,
+  isClaimable: boolean,
+  hasConstruct: boolean,
+  isObjective: boolean,
+  isUnsupplied: boolean
+}>`
   position: relative;
   width: 20px;
   height: 20px;
-  border: 1px solid rgba(255, 255, 255, 0.1);
-  background-color: ${props => props.owner ? props.color : '#444a57'};
+  border: 1px solid ${props => props.isObjective ? '#ffd700' : 'rgba(255, 255, 255, 0.1)'};
+  background-color: ${props => props.owner ? props.color : TERRAIN_INFO[props.terrain].color};
+  /* Owned tiles keep a hint of their terrain */
+  box-shadow: ${props => props.owner && props.terrain !== 'plains' ? `inset 0 0 0 3px ${TERRAIN_INFO[props.terrain].color}` : 'none'};
+  /* Tiles cut off from their capital are hatched over */
+  background-image: ${props => props.isUnsupplied ? UNSUPPLIED_STRIPES : 'none'};
   cursor: ${props => props.isClaimable ? 'pointer' : 'default'};
   opacity: ${props => props.isClaimable ? '0.8' : '1'};
   
@@ -169,6 +259,38 @@ const GridCell = styled.div<{ owner: string | null, color: string | null, isClai
   }
 `;
 
+const TerrainLegend = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 1rem;
+  margin-bottom: 1.5rem;
+  font-size: 0.85rem;
+`;
+
+const LegendItem = styled.span<{ color: string, striped?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 0.35rem;
+
+  &::before {
+    content: '';
+    width: 12px;
+    height: 12px;
+    border-radius: 2px;
+    background-color: ${props => props.color};
+    background-image: ${props => props.striped ? UNSUPPLIED_STRIPES : 'none'};
+  }
+`;
+
+const CapitalMarker = styled.span`
+  position: absolute;
+  top: -2px;
+  left: 1px;
+  font-size: 0.5rem;
+  color: white;
+  text-shadow: 0 0 2px rgba(0, 0, 0, 0.8);
+`;
+
 const ConstructIcon = styled.div`
   position: absolute;
   top: 50%;
@@ -180,6 +302,11 @@ const ConstructIcon = styled.div`
   text-shadow: 0 0 2px rgba(0, 0, 0, 0.8);
 `;
 
+const ConstructLevel = styled.span`
+  font-size: 0.5rem;
+  vertical-align: super;
+`;
+
 const ActionPanel = styled.div`
   display: flex;
   flex-direction: column;
@@ -241,6 +368,27 @@ const SelectedTileInfo = styled.div`
   margin-bottom: 1rem;
 `;
 
+const UnitSlider = styled.input`
+  width: 100%;
+  margin: 0.5rem 0;
+`;
+
+const BattleLog = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  font-size: 0.85rem;
+
+  li {
+    padding: 0.25rem 0;
+    border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+  }
+`;
+
+const BattleResult = styled.strong<{ captured: boolean }>`
+  color: ${props => props.captured ? '#4ade80' : '#f87171'};
+`;
+
 const Button = styled.button`
   width: 100%;
   max-width: 200px;
@@ -258,6 +406,23 @@ const Button = styled.button`
   }
 `;
 
+const Objective = styled.div`
+  margin-bottom: 1.5rem;
+  text-align: center;
+  opacity: 0.9;
+`;
+
+const Notice = styled.div`
+  background-color: #7f1d1d;
+  color: #fecaca;
+  padding: 0.75rem 1.5rem;
+  border-radius: 4px;
+  margin-bottom: 1.5rem;
+  width: 100%;
+  max-width: 800px;
+  text-align: center;
+`;
+
 const formatTime = (ms: number) => {
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
   const minutes = Math.floor(totalSeconds / 60);
@@ -265,20 +430,56 @@ const formatTime = (ms: number) => {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 };
 
+// What a terrain type does, for the legend under the map
+const describeTerrain = (terrain: Terrain): string => {
+  const info = TERRAIN_INFO[terrain];
+  if (!info.claimable) return ': impassable';
+  if (info.claimCostFactor !== 1) return `: claims cost ×${info.claimCostFactor}`;
+  if (info.goldRate > 0) return `: +${info.goldRate} gold/s`;
+  if (info.defense > 0) return `: +${info.defense} defense`;
+  return '';
+};
+
+// What a construct of a faction's design gives at a level, for the build and upgrade
+// buttons. Captured constructs only give a share of it.
+const describeConstructLevel = (type: ConstructType, level: number, faction: Faction, share = 1): string => {
+  if (type === ConstructType.DEFENSE) {
+    const tier = getConstructTier(type, level);
+    if (!tier) return '';
+    const output = tier.output * share;
+    return tier.areaDefense > 0 ? `+${output} defense, +${tier.areaDefense * share} next door` : `+${output} defense`;
+  }
+  return `+${getConstructRate(type, level, faction) * share} ${type === ConstructType.GOLD ? 'gold' : 'units'}/s`;
+};
+
 const GameBoard: React.FC = () => {
   const { 
     myId, 
     gameState, 
     lobbyState, 
     claimTile, 
+    attackTile,
     buildConstruct,
+    upgradeConstruct,
+    convertConstruct,
     demolishConstruct,
-    resetGame 
+    activateAbility,
+    actionRejection,
+    clearActionRejection
   } = usePeer();
   
   const [selectedTile, setSelectedTile] = useState<{x: number, y: number} | null>(null);
   const [selectedAction, setSelectedAction] = useState<'claim' | 'build' | null>(null);
   const [selectedConstructType, setSelectedConstructType] = useState<ConstructType | null>(null);
+  const [attackUnits, setAttackUnits] = useState(1);
+  
+  // Hide rejection notices after a few seconds
+  useEffect(() => {
+    if (!actionRejection) return;
+    
+    const timer = setTimeout(clearActionRejection, 3000);
+    return () => clearTimeout(timer);
+  }, [actionRejection, clearActionRejection]);
   
   if (!gameState || !lobbyState) {
     return <div>Loading...</div>;
@@ -287,80 +488,66 @@ const GameBoard: React.FC = () => {
   const players = Object.values(gameState.players);
   const myPlayer = gameState.players[myId];
   
-  // Game time remaining
-  const timeRemaining = gameState.gameEndTime ? gameState.gameEndTime - Date.now() : 0;
-  
-  // Calculate claimable cells
-  const getClaimableCells = () => {
-    const claimableSet = new Set<string>();
-    
-    // Your tiles
-    const myTiles = myPlayer.tiles;
-    
-    // For each of your tiles, check adjacent tiles
-    myTiles.forEach(tile => {
-      const { x, y } = tile;
-      
-      // Check the four adjacent cells
-      [
-        { dx: 1, dy: 0 },
-        { dx: -1, dy: 0 },
-        { dx: 0, dy: 1 },
-        { dx: 0, dy: -1 }
-      ].forEach(({ dx, dy }) => {
-        const adjX = x + dx;
-        const adjY = y + dy;
-        
-        // Check if the adjacent cell is within the grid bounds
-        if (
-          adjX >= 0 && adjX < GRID_SIZE && 
-          adjY >= 0 && adjY < GRID_SIZE
-        ) {
-          const cell = gameState.grid[adjY][adjX];
-          
-          // Cell can be claimed if:
-          // 1. It's not owned by you
-          // 2. You have enough resources to claim it
-          
-          const goldCost = getGoldCostForNewTile(cell);
-          const unitCost = getUnitCostForTile(cell);
-          
-          if (
-            (cell.ownerId === null && myPlayer.gold >= goldCost) ||
-            (cell.ownerId !== null && cell.ownerId !== myId && myPlayer.gold >= goldCost && myPlayer.units >= unitCost)
-          ) {
-            claimableSet.add(`${adjX},${adjY}`);
-          }
-        }
-      });
-    });
-    
-    return claimableSet;
+  // Connection label for a player card, with the time left to reconnect
+  const describePresence = (playerId: string): string => {
+    const { status, disconnectedAtTick } = getPresence(gameState, playerId);
+    switch (status) {
+      case 'connected': return 'Connected';
+      case 'reconnecting': {
+        const ticksLeft = DISCONNECT_GRACE_TICKS - (gameState.tick - (disconnectedAtTick ?? gameState.tick));
+        return `Reconnecting (${formatTime(ticksLeft * TICK_MS)})`;
+      }
+      case 'frozen': return 'Disconnected - frozen';
+      case 'bot': return 'Disconnected - bot playing';
+      case 'forfeited': return 'Forfeited';
+    }
   };
   
-  // Calculate gold cost for claiming a new tile
-  const getGoldCostForNewTile = (tile: typeof gameState.grid[0][0]) => {
-    // Base cost is 10
-    const baseCost = 10;
-    
-    // Cost increases by 5 for each tile you already own
-    const territorySizeCost = myPlayer.tiles.length * 2;
+  // Contested claims name the winner and what we got back
+  const describeRejection = (rejection: ActionRejection): string => {
+    if (rejection.reason !== 'CONTESTED' || rejection.action.type === 'USE_ABILITY') {
+      return REJECTION_MESSAGES[rejection.reason];
+    }
     
-    return baseCost + territorySizeCost;
+    const { x, y } = rejection.action;
+    const winnerName = (rejection.contestedBy && gameState.players[rejection.contestedBy]?.name) || 'Another player';
+    const refund = rejection.refund && rejection.refund.gold + rejection.refund.units > 0
+      ? ` Refunded ${rejection.refund.gold.toFixed(0)} gold and ${rejection.refund.units.toFixed(0)} units.`
+      : '';
+    return `Contested: ${winnerName} claimed (${x}, ${y}) first.${refund}`;
   };
   
-  // Calculate unit cost for claiming a tile
-  const getUnitCostForTile = (tile: typeof gameState.grid[0][0]) => {
-    if (tile.ownerId === null) return 0;
-    
-    // Base cost is 5 units
-    const baseCost = 5;
-    
-    // Add defense bonus from the tile
-    return baseCost + (tile.defenseBonus || 0);
+  // Game time remaining, counted in simulation ticks so every player sees the same clock.
+  // Matches without a time limit show how long they've been going instead.
+  const durationTicks = getDurationTicks(gameState.settings);
+  const timeRemaining = durationTicks === null ? null : Math.max(0, (durationTicks - gameState.tick) * TICK_MS);
+  
+  // What everyone is playing for, and how close the leader is
+  const hillTile = gameState.settings.winCondition === 'hill' ? getHillTile(gameState.settings) : null;
+  const describeObjective = (): string => {
+    const { settings, hill } = gameState;
+    switch (settings.winCondition) {
+      case 'domination':
+        return `Hold ${getDominationTiles(gameState)} tiles (${settings.dominationPercent}% of the map) to win.`;
+      case 'economic':
+        return `First to ${settings.goldTarget} gold wins.`;
+      case 'hill': {
+        const holdSeconds = getHillHoldTicks(settings) * TICK_MS / 1000;
+        const holder = hill?.holderId ? gameState.players[hill.holderId] : null;
+        if (!hill || !holder) return `Hold the centre tile for ${holdSeconds}s to win. Nobody holds it yet.`;
+        const heldSeconds = Math.floor((gameState.tick - hill.sinceTick) * TICK_MS / 1000);
+        return `Hold the centre tile for ${holdSeconds}s to win. ${holder.name} has held it for ${heldSeconds}s.`;
+      }
+      case 'elimination':
+        return 'Last player holding tiles wins.';
+      default:
+        return 'Most tiles when time runs out wins.';
+    }
   };
   
-  const claimableCells = getClaimableCells();
+  // Calculate claimable cells, and enemy cells that can be attacked
+  const claimableCells = getClaimableTiles(gameState, myId);
+  const attackableCells = getAttackableTiles(gameState, myId);
   
   // Calculate scores
   const calculateScores = () => {
@@ -385,6 +572,51 @@ const GameBoard: React.FC = () => {
   
   const scores = calculateScores();
   
+  // One card per player; team matches group them under their team's totals
+  const renderPlayerCard = (player: Player) => (
+    <PlayerCard
+      key={player.id}
+      color={player.color}
+    >
+      <PlayerHeader>
+        <ColorIndicator color={player.color} />
+        <strong>{player.name}{player.id === myId ? ' (You)' : ''}</strong>
+      </PlayerHeader>
+      
+      <ConnectionStatus status={getPresence(gameState, player.id).status}>
+        {describePresence(player.id)}
+      </ConnectionStatus>
+      
+      <PlayerStats>
+        <Stat>
+          <span>Faction:</span>
+          <span>{FACTION_INFO[player.faction].name}</span>
+        </Stat>
+        <Stat>
+          <span>Tiles:</span>
+          <span>{scores[player.id]}</span>
+        </Stat>
+        <Stat>
+          <span>Gold Rate:</span>
+          <span>+{player.goldRate.toFixed(1)}/s</span>
+        </Stat>
+        <Stat>
+          <span>Unit Rate:</span>
+          <span>+{player.unitRate.toFixed(1)}/s</span>
+        </Stat>
+      </PlayerStats>
+    </PlayerCard>
+  );
+  
+  const teamGroups = gameState.settings.teamMode
+    ? Array.from(new Set(players.map(player => player.team ?? null)))
+      .sort((a, b) => (a ?? Infinity) - (b ?? Infinity))
+      .map(team => ({
+        label: team === null ? 'No team' : `Team ${team}`,
+        members: players.filter(player => (player.team ?? null) === team)
+      }))
+    : null;
+  
   // Handle tile click
   const handleCellClick = (x: number, y: number) => {
     // If we're in build mode and the tile is owned by us, select it
@@ -397,17 +629,24 @@ const GameBoard: React.FC = () => {
       return;
     }
     
-    // Otherwise, we're in claim mode
+    // Otherwise, we're in claim mode. Enemy tiles are selected so the attack can be sized.
     if (claimableCells.has(`${x},${y}`)) {
-      const tile = gameState.grid[y][x];
-      const goldCost = getGoldCostForNewTile(tile);
-      const unitCost = getUnitCostForTile(tile);
-      
-      claimTile(x, y, goldCost, unitCost);
+      claimTile(x, y);
       setSelectedTile(null);
+    } else if (attackableCells.has(`${x},${y}`)) {
+      setSelectedTile({ x, y });
     }
   };
   
+  // Handle attack
+  const handleAttack = (units: number) => {
+    if (!selectedTile) return;
+    
+    const { x, y } = selectedTile;
+    attackTile(x, y, units);
+    setSelectedTile(null);
+  };
+  
   // Handle build construct
   const handleBuildConstruct = () => {
     if (!selectedTile || !selectedConstructType) return;
@@ -418,6 +657,22 @@ const GameBoard: React.FC = () => {
     setSelectedConstructType(null);
   };
   
+  // Handle upgrade construct
+  const handleUpgradeConstruct = () => {
+    if (!selectedTile) return;
+    
+    const { x, y } = selectedTile;
+    upgradeConstruct(x, y);
+  };
+  
+  // Handle convert construct
+  const handleConvertConstruct = () => {
+    if (!selectedTile) return;
+    
+    const { x, y } = selectedTile;
+    convertConstruct(x, y);
+  };
+  
   // Handle demolish construct
   const handleDemolishConstruct = () => {
     if (!selectedTile) return;
@@ -427,6 +682,20 @@ const GameBoard: React.FC = () => {
     setSelectedTile(null);
   };
   
+  // Capitals, where supply lines start
+  const isCapital = (ownerId: string, x: number, y: number): boolean => {
+    const capital = gameState.capitals[ownerId];
+    return !!capital && capital.x === x && capital.y === y;
+  };
+  
+  // Whether a tile is connected to its owner's capital, and how long it has left if not
+  const describeSupply = (x: number, y: number): string => {
+    const cutOffAt = gameState.unsupplied[`${x},${y}`];
+    if (cutOffAt === undefined) return 'Connected to the capital';
+    const secondsLeft = Math.max(0, Math.ceil((cutOffAt + UNSUPPLIED_DECAY_TICKS - gameState.tick) * TICK_MS / 1000));
+    return `Cut off, goes neutral in ${secondsLeft}s`;
+  };
+  
   // Get information about the selected tile
   const getSelectedTileInfo = () => {
     if (!selectedTile) return null;
@@ -437,17 +706,38 @@ const GameBoard: React.FC = () => {
     if (tile.ownerId !== myId) return null;
     
     let constructInfo = 'None';
+    let upgrade: { level: number; cost: number; effect: string } | null = null;
+    let convert: { name: string; cost: number; effect: string } | null = null;
     if (tile.construct) {
-      const constructType = tile.construct.type;
-      // Use bracket notation for type safety
+      const { type, level } = tile.construct;
+      // Captured constructs keep the design, and the name, of the faction that built them
       const faction = myPlayer.faction;
-      const factionInfo = FACTION_INFO[faction];
-      constructInfo = factionInfo.constructs[constructType as keyof typeof factionInfo.constructs];
+      const builtBy = tile.construct.faction;
+      const share = builtBy === faction ? 1 : CAPTURED_CONSTRUCT_OUTPUT;
+      const constructName = (of: Faction) => FACTION_INFO[of].constructs[type as 'GOLD' | 'UNIT' | 'DEFENSE'];
+      const captured = builtBy === faction ? '' : `, captured at ${share * 100}% output`;
+      constructInfo = `${constructName(builtBy)} (level ${level}/${MAX_CONSTRUCT_LEVEL}${captured}): ${describeConstructLevel(type, level, builtBy, share)}`;
+      
+      const cost = getConstructCost(type, gameState.settings, faction, level + 1);
+      if (cost !== null) {
+        upgrade = { level: level + 1, cost, effect: describeConstructLevel(type, level + 1, builtBy, share) };
+      }
+      if (builtBy !== faction) {
+        convert = {
+          name: constructName(faction),
+          cost: getConversionCost(tile.construct, gameState.settings, faction),
+          effect: describeConstructLevel(type, level, faction)
+        };
+      }
     }
     
     return {
       coords: `(${x}, ${y})`,
       construct: constructInfo,
+      defense: getTileDefense(gameState, tile),
+      supply: describeSupply(x, y),
+      upgrade,
+      convert,
       canBuild: !tile.construct,
       canDemolish: !!tile.construct
     };
@@ -455,6 +745,31 @@ const GameBoard: React.FC = () => {
   
   const selectedTileInfo = getSelectedTileInfo();
   
+  // The enemy tile picked for an attack, and how it would go with the units chosen
+  const getAttackInfo = () => {
+    if (selectedAction !== 'claim' || !selectedTile) return null;
+    
+    const { x, y } = selectedTile;
+    const defenderId = gameState.grid[y][x].ownerId;
+    if (!defenderId || !attackableCells.has(`${x},${y}`)) return null;
+    
+    const maxUnits = Math.floor(myPlayer.units);
+    const units = Math.max(1, Math.min(attackUnits, maxUnits));
+    return {
+      coords: `(${x}, ${y})`,
+      defender: gameState.players[defenderId]?.name ?? 'Unknown',
+      maxUnits,
+      units,
+      odds: getBattleOdds(gameState, myId, x, y, units)
+    };
+  };
+  
+  const attackInfo = getAttackInfo();
+  
+  // Newest first, with player names filled in
+  const playerName = (playerId: string) => gameState.players[playerId]?.name ?? 'Unknown';
+  const recentBattles = [...gameState.battles].reverse();
+  
   // Check if a construct can be built
   const canBuildConstruct = (type: ConstructType) => {
     if (!selectedTile) return false;
@@ -465,28 +780,35 @@ const GameBoard: React.FC = () => {
     if (tile.ownerId !== myId || tile.construct) return false;
     
     // Check resource requirements
-    const goldCost = type === ConstructType.GOLD ? 20 : (type === ConstructType.UNIT ? 15 : 25);
-    return myPlayer.gold >= goldCost;
+    const goldCost = getConstructCost(type, gameState.settings, myPlayer.faction);
+    return goldCost !== null && myPlayer.gold >= goldCost;
   };
   
-  // Get cost for a construct
-  const getConstructCost = (type: ConstructType) => {
-    switch (type) {
-      case ConstructType.GOLD: return 20;
-      case ConstructType.UNIT: return 15;
-      case ConstructType.DEFENSE: return 25;
-      default: return 0;
-    }
-  };
+  // The faction ability's button: usable, running or cooling down
+  const ability = FACTION_INFO[myPlayer.faction].ability;
+  const abilityCooldownTicks = getAbilityCooldownTicks(gameState, myId);
+  const abilityActiveTicks = Math.max(0, getAbilityState(gameState, myId).activeUntilTick - gameState.tick);
+  const abilityStatus = abilityActiveTicks > 0
+    ? `Active ${Math.ceil(abilityActiveTicks * TICK_MS / 1000)}s`
+    : abilityCooldownTicks > 0 ? `Ready in ${Math.ceil(abilityCooldownTicks * TICK_MS / 1000)}s` : 'Use';
   
   return (
     <Container>
       <Title>Wartiles Online</Title>
       
       <TimerContainer>
-        {formatTime(timeRemaining)}
+        {timeRemaining === null ? `${formatTime(gameState.tick * TICK_MS)} elapsed` : formatTime(timeRemaining)}
       </TimerContainer>
       
+      <Objective>{describeObjective()}</Objective>
+      
+      <HostChangeBanner />
+      <SuspiciousPeerBanner />
+      
+      {actionRejection && (
+        <Notice>{describeRejection(actionRejection)}</Notice>
+      )}
+      
       <ResourcesContainer>
         <ResourceRow>
           <ResourceLabel>
@@ -508,39 +830,29 @@ const GameBoard: React.FC = () => {
             <ResourceRate>(+{myPlayer.unitRate.toFixed(1)}/s)</ResourceRate>
           </div>
         </ResourceRow>
+        <ResourceRow>
+          <ResourceLabel title={ability.description}>
+            <ResourceIcon type="ability">A</ResourceIcon>
+            {ability.name}
+          </ResourceLabel>
+          <AbilityButton disabled={abilityCooldownTicks > 0 || gameState.gameOver} onClick={activateAbility}>
+            {abilityStatus}
+          </AbilityButton>
+        </ResourceRow>
       </ResourcesContainer>
       
       <PlayerList>
-        {players.map(player => (
-          <PlayerCard 
-            key={player.id} 
-            color={player.color}
-          >
-            <PlayerHeader>
-              <ColorIndicator color={player.color} />
-              <strong>{player.name}{player.id === myId ? ' (You)' : ''}</strong>
-            </PlayerHeader>
-            
-            <PlayerStats>
-              <Stat>
-                <span>Faction:</span>
-                <span>{FACTION_INFO[player.faction].name}</span>
-              </Stat>
-              <Stat>
-                <span>Tiles:</span>
-                <span>{scores[player.id]}</span>
-              </Stat>
-              <Stat>
-                <span>Gold Rate:</span>
-                <span>+{player.goldRate.toFixed(1)}/s</span>
-              </Stat>
-              <Stat>
-                <span>Unit Rate:</span>
-                <span>+{player.unitRate.toFixed(1)}/s</span>
-              </Stat>
-            </PlayerStats>
-          </PlayerCard>
-        ))}
+        {teamGroups
+          ? teamGroups.map(group => (
+            <TeamGroup key={group.label}>
+              <TeamHeader>
+                {group.label}: {group.members.reduce((total, p) => total + scores[p.id], 0)} tiles,{' '}
+                {group.members.reduce((total, p) => total + p.gold, 0).toFixed(0)} gold
+              </TeamHeader>
+              <PlayerList>{group.members.map(renderPlayerCard)}</PlayerList>
+            </TeamGroup>
+          ))
+          : players.map(renderPlayerCard)}
       </PlayerList>
       
       <GridContainer className="grid-container">
@@ -551,15 +863,21 @@ const GameBoard: React.FC = () => {
                 key={`${x},${y}`}
                 owner={cell.ownerId}
                 color={cell.ownerId ? gameState.players[cell.ownerId].color : null}
-                isClaimable={claimableCells.has(`${x},${y}`)}
+                terrain={cell.terrain}
+                title={`${TERRAIN_INFO[cell.terrain].name}${isSupplied(gameState, x, y) ? '' : ' (cut off)'}`}
+                isClaimable={claimableCells.has(`${x},${y}`) || attackableCells.has(`${x},${y}`)}
                 hasConstruct={!!cell.construct}
+                isObjective={!!hillTile && hillTile.x === x && hillTile.y === y}
+                isUnsupplied={!isSupplied(gameState, x, y)}
                 onClick={() => handleCellClick(x, y)}
                 data-selected={selectedTile && selectedTile.x === x && selectedTile.y === y}
               >
+                {cell.ownerId && isCapital(cell.ownerId, x, y) && <CapitalMarker>★</CapitalMarker>}
                 {cell.construct && (
                   <ConstructIcon>
                     {cell.construct.type === ConstructType.GOLD ? 'G' : 
                      cell.construct.type === ConstructType.UNIT ? 'U' : 'D'}
+                    <ConstructLevel>{cell.construct.level}</ConstructLevel>
                   </ConstructIcon>
                 )}
               </GridCell>
@@ -568,6 +886,18 @@ const GameBoard: React.FC = () => {
         ))}
       </GridContainer>
       
+      <TerrainLegend>
+        {(Object.keys(TERRAIN_INFO) as Terrain[]).map(terrain => (
+          <LegendItem key={terrain} color={TERRAIN_INFO[terrain].color}>
+            {TERRAIN_INFO[terrain].name}{describeTerrain(terrain)}
+          </LegendItem>
+        ))}
+        <LegendItem color="#444a57">★ Capital</LegendItem>
+        <LegendItem color="#444a57" striped>
+          Cut off from its capital: constructs stop working, defense halves, neutral after {UNSUPPLIED_DECAY_MS / 1000}s
+        </LegendItem>
+      </TerrainLegend>
+      
       <ActionPanel>
         <ActionsTitle>Actions</ActionsTitle>
         
@@ -580,7 +910,7 @@ const GameBoard: React.FC = () => {
               setSelectedConstructType(null);
             }}
           >
-            Claim Tiles
+            Claim/Attack
           </ActionButton>
           <ActionButton 
             active={selectedAction === 'build'}
@@ -594,11 +924,34 @@ const GameBoard: React.FC = () => {
           </ActionButton>
         </ActionButtons>
         
+        {attackInfo && (
+          <SelectedTileInfo>
+            <h4>Attack {attackInfo.coords}, held by {attackInfo.defender}</h4>
+            <label>
+              Send {attackInfo.units} of {attackInfo.maxUnits} units
+              <UnitSlider
+                type="range"
+                min={1}
+                max={attackInfo.maxUnits}
+                value={attackInfo.units}
+                onChange={(e) => setAttackUnits(Number(e.target.value))}
+              />
+            </label>
+            <p>
+              Attack {attackInfo.odds.attack.toFixed(1)} against defense {attackInfo.odds.defense.toFixed(1)}:{' '}
+              {Math.round(attackInfo.odds.chance * 100)}% chance. A failed attack loses every unit sent.
+            </p>
+            <Button onClick={() => handleAttack(attackInfo.units)}>Attack</Button>
+          </SelectedTileInfo>
+        )}
+        
         {selectedAction === 'build' && selectedTile && selectedTileInfo && (
           <>
             <SelectedTileInfo>
               <h4>Selected Tile: {selectedTileInfo.coords}</h4>
               <p>Current Construct: {selectedTileInfo.construct}</p>
+              <p>Defense: {selectedTileInfo.defense}</p>
+              <p>Supply: {selectedTileInfo.supply}</p>
             </SelectedTileInfo>
             
             {selectedTileInfo.canBuild ? (
@@ -620,8 +973,9 @@ const GameBoard: React.FC = () => {
                       >
                         {constructName}
                         <div style={{ fontSize: '0.8rem', marginTop: '0.25rem' }}>
-                          Cost: {getConstructCost(type)} Gold
+                          Cost: {getConstructCost(type, gameState.settings, faction) ?? 0} Gold
                         </div>
+                        <div style={{ fontSize: '0.8rem' }}>{describeConstructLevel(type, 1, faction)}</div>
                       </ActionButton>
                     );
                   })}
@@ -636,13 +990,57 @@ const GameBoard: React.FC = () => {
                 </Button>
               </>
             ) : selectedTileInfo.canDemolish ? (
-              <Button onClick={handleDemolishConstruct}>
-                Demolish Construct
-              </Button>
+              <ActionButtons>
+                {selectedTileInfo.upgrade ? (
+                  <ActionButton
+                    disabled={myPlayer.gold < selectedTileInfo.upgrade.cost}
+                    onClick={handleUpgradeConstruct}
+                  >
+                    Upgrade to level {selectedTileInfo.upgrade.level}
+                    <div style={{ fontSize: '0.8rem', marginTop: '0.25rem' }}>
+                      Cost: {selectedTileInfo.upgrade.cost} Gold
+                    </div>
+                    <div style={{ fontSize: '0.8rem' }}>{selectedTileInfo.upgrade.effect}</div>
+                  </ActionButton>
+                ) : (
+                  <ActionButton disabled>Fully upgraded</ActionButton>
+                )}
+                {selectedTileInfo.convert && (
+                  <ActionButton
+                    disabled={myPlayer.gold < selectedTileInfo.convert.cost}
+                    onClick={handleConvertConstruct}
+                  >
+                    Convert to {selectedTileInfo.convert.name}
+                    <div style={{ fontSize: '0.8rem', marginTop: '0.25rem' }}>
+                      Cost: {selectedTileInfo.convert.cost} Gold
+                    </div>
+                    <div style={{ fontSize: '0.8rem' }}>{selectedTileInfo.convert.effect}</div>
+                  </ActionButton>
+                )}
+                <ActionButton onClick={handleDemolishConstruct}>
+                  Demolish Construct
+                </ActionButton>
+              </ActionButtons>
             ) : null}
           </>
         )}
       </ActionPanel>
+      
+      {recentBattles.length > 0 && (
+        <ActionPanel>
+          <ActionsTitle>Battles</ActionsTitle>
+          <BattleLog>
+            {recentBattles.map((battle, index) => (
+              <li key={`${battle.tick}-${battle.x}-${battle.y}-${index}`}>
+                {playerName(battle.attackerId)} attacked {playerName(battle.defenderId)} at ({battle.x}, {battle.y})
+                {' '}with {battle.committed} units ({Math.round(battle.chance * 100)}%):{' '}
+                <BattleResult captured={battle.captured}>{battle.captured ? 'captured' : 'repelled'}</BattleResult>.
+                {' '}Losses {battle.attackerLosses.toFixed(0)} / {battle.defenderLosses.toFixed(0)}.
+              </li>
+            ))}
+          </BattleLog>
+        </ActionPanel>
+      )}
     </Container>
   );
 };
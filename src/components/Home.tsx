@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
 import { usePeer } from '../contexts/PeerContext';
+import { LobbyListing } from '../types';
+import LobbyBrowser from './LobbyBrowser';
 
 const Container = styled.div`
   display: flex;
@@ -104,19 +106,60 @@ const Tab = styled.button<{ active: boolean }>`
   }
 `;
 
+const RejoinBox = styled.div`
+  background-color: #444a57;
+  border-radius: 4px;
+  padding: 1rem;
+  margin-bottom: 1.5rem;
+  
+  p {
+    margin: 0 0 0.5rem;
+  }
+`;
+
+const ButtonRow = styled.div`
+  display: flex;
+  gap: 0.5rem;
+  
+  button {
+    flex: 1;
+    margin-top: 0;
+  }
+`;
+
+const SecondaryButton = styled(Button)`
+  background-color: #4a5568;
+  color: white;
+  
+  &:hover {
+    background-color: #3e4451;
+  }
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  font-size: 1rem;
+  cursor: pointer;
+`;
+
 const ErrorText = styled.p`
   color: #ff6b6b;
   margin-top: 0.5rem;
 `;
 
 const Home: React.FC = () => {
-  const [tab, setTab] = useState<'create' | 'join'>('create');
+  const [tab, setTab] = useState<'create' | 'join' | 'browse'>('create');
   const [name, setName] = useState('');
+  const [lobbyName, setLobbyName] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
   const [lobbyId, setLobbyId] = useState('');
+  const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [lobbyCode, setLobbyCode] = useState<string | null>(null);
   
-  const { setPlayerName, createLobby, joinLobby, lobbyError } = usePeer();
+  const { setPlayerName, createLobby, joinLobby, savedSession, rejoinLobby, forgetSession, lobbyError } = usePeer();
   
   const handleCreateLobby = (e: React.FormEvent) => {
     e.preventDefault();
@@ -127,7 +170,7 @@ const Home: React.FC = () => {
     }
     
     setPlayerName(name);
-    const code = createLobby();
+    const code = createLobby(lobbyName, isPublic, password);
     setLobbyCode(code);
   };
   
@@ -145,9 +188,55 @@ const Home: React.FC = () => {
     }
     
     setPlayerName(name);
-    joinLobby(lobbyId);
+    joinLobby(lobbyId, password);
   };
   
+  const handleJoinListed = (listing: LobbyListing) => {
+    // Password-protected lobbies are joined from the code form
+    if (listing.hasPassword) {
+      setLobbyId(listing.lobbyId);
+      setPassword('');
+      setTab('join');
+      setError('This lobby needs a password');
+      return;
+    }
+    
+    if (!name.trim()) {
+      setError('Please enter your name');
+      return;
+    }
+    
+    setError(null);
+    setPlayerName(name);
+    joinLobby(listing.lobbyId);
+  };
+  
+  const nameField = (
+    <Label>
+      Your Name
+      <Input 
+        type="text" 
+        value={name} 
+        onChange={(e) => setName(e.target.value)} 
+        placeholder="Enter your name" 
+        maxLength={15}
+      />
+    </Label>
+  );
+  
+  const passwordField = (placeholder: string) => (
+    <Label>
+      Password
+      <Input 
+        type="password" 
+        value={password} 
+        onChange={(e) => setPassword(e.target.value)} 
+        placeholder={placeholder} 
+        maxLength={30}
+      />
+    </Label>
+  );
+  
   return (
     <Container>
       <Title>Multiplayer Grid Game</Title>
@@ -172,6 +261,19 @@ const Home: React.FC = () => {
           </div>
         ) : (
           <>
+            {savedSession && (
+              <RejoinBox>
+                <p>
+                  You were playing in lobby <strong>{savedSession.lobbyId}</strong> as {savedSession.playerName}.
+                </p>
+                <ButtonRow>
+                  <Button type="button" onClick={rejoinLobby}>Rejoin</Button>
+                  <SecondaryButton type="button" onClick={forgetSession}>Forget</SecondaryButton>
+                </ButtonRow>
+                {lobbyError && <ErrorText>{lobbyError}</ErrorText>}
+              </RejoinBox>
+            )}
+            
             <Tabs>
               <Tab 
                 active={tab === 'create'} 
@@ -185,37 +287,59 @@ const Home: React.FC = () => {
               >
                 Join Lobby
               </Tab>
+              <Tab 
+                active={tab === 'browse'} 
+                onClick={() => { setTab('browse'); setError(null); }}
+              >
+                Browse
+              </Tab>
             </Tabs>
             
-            {tab === 'create' ? (
+            {tab === 'create' && (
               <Form onSubmit={handleCreateLobby}>
+                {nameField}
+                
                 <Label>
-                  Your Name
+                  Lobby Name
                   <Input 
                     type="text" 
-                    value={name} 
-                    onChange={(e) => setName(e.target.value)} 
-                    placeholder="Enter your name" 
-                    maxLength={15}
+                    value={lobbyName} 
+                    onChange={(e) => setLobbyName(e.target.value)} 
+                    placeholder={name.trim() ? `${name.trim()}'s lobby` : 'Optional'} 
+                    maxLength={30}
                   />
                 </Label>
                 
+                <CheckboxLabel>
+                  <input 
+                    type="checkbox" 
+                    checked={isPublic} 
+                    onChange={(e) => setIsPublic(e.target.checked)} 
+                  />
+                  List in the lobby browser
+                </CheckboxLabel>
+                
+                {passwordField('Optional')}
+                
                 <Button type="submit">Create Lobby</Button>
                 
-                {error && <ErrorText>{error}</ErrorText>}
+                {(error || lobbyError) && <ErrorText>{error || lobbyError}</ErrorText>}
+              </Form>
+            )}
+            
+            {tab === 'browse' && (
+              <Form onSubmit={(e) => e.preventDefault()}>
+                {nameField}
+                
+                <LobbyBrowser onJoin={handleJoinListed} />
+                
+                {(error || lobbyError) && <ErrorText>{error || lobbyError}</ErrorText>}
               </Form>
-            ) : (
+            )}
+            
+            {tab === 'join' && (
               <Form onSubmit={handleJoinLobby}>
-                <Label>
-                  Your Name
-                  <Input 
-                    type="text" 
-                    value={name} 
-                    onChange={(e) => setName(e.target.value)} 
-                    placeholder="Enter your name" 
-                    maxLength={15}
-                  />
-                </Label>
+                {nameField}
                 
                 <Label>
                   Lobby Code
@@ -228,6 +352,8 @@ const Home: React.FC = () => {
                   />
                 </Label>
                 
+                {passwordField('Only if the lobby has one')}
+                
                 <Button type="submit">Join Lobby</Button>
                 
                 {(error || lobbyError) && <ErrorText>{error || lobbyError}</ErrorText>}
@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+import styled from 'styled-components';
+import { usePeer } from '../contexts/PeerContext';
+
+const Banner = styled.div`
+  background-color: #1e3a8a;
+  color: #dbeafe;
+  padding: 0.75rem 1.5rem;
+  border-radius: 4px;
+  margin-bottom: 1.5rem;
+  width: 100%;
+  max-width: 800px;
+  text-align: center;
+`;
+
+// Shown in the lobby and during a game after the host hands over
+const HostChangeBanner: React.FC = () => {
+  const { myId, lobbyState, hostChange, clearHostChange } = usePeer();
+  
+  // Hide the announcement after a few seconds
+  useEffect(() => {
+    if (!hostChange) return;
+    
+    const timer = setTimeout(clearHostChange, 6000);
+    return () => clearTimeout(timer);
+  }, [hostChange, clearHostChange]);
+  
+  if (!hostChange || !lobbyState) return null;
+  
+  const newHostName = hostChange.newHostId === myId
+    ? 'You are'
+    : `${lobbyState.players[hostChange.newHostId]?.name ?? 'Another player'} is`;
+  
+  return (
+    <Banner>
+      {hostChange.previousHostName} left. {newHostName} now the host.
+    </Banner>
+  );
+};
+
+export default HostChangeBanner;
@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React from 'react';
 import styled from 'styled-components';
 import { usePeer } from '../contexts/PeerContext';
-import { MAX_PLAYERS, Faction, FACTION_INFO } from '../types';
+import { describePassives } from '../engine';
+import { Faction, FACTION_INFO, TEAM_COUNT, DisconnectPolicy, DISCONNECT_GRACE_MS, DISCONNECT_POLICY_INFO } from '../types';
+import HostChangeBanner from './HostChangeBanner';
+import MatchSettingsPanel from './MatchSettingsPanel';
 
 const Container = styled.div`
   display: flex;
@@ -99,6 +102,26 @@ const ReadyStatus = styled.div<{ isReady: boolean }>`
   font-weight: ${props => props.isReady ? 'bold' : 'normal'};
 `;
 
+const PlayerStatus = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+`;
+
+const ModerationButton = styled.button`
+  padding: 0.25rem 0.5rem;
+  font-size: 0.75rem;
+  background-color: #4a5568;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  
+  &:hover {
+    background-color: #b91c1c;
+  }
+`;
+
 const WaitingMessage = styled.div`
   padding: 1rem;
   background-color: #444a57;
@@ -198,18 +221,59 @@ const Construct = styled.div`
   opacity: 0.8;
 `;
 
+const FactionTraits = styled.ul`
+  font-size: 0.8rem;
+  margin: 0.5rem 0 0;
+  padding-left: 1rem;
+`;
+
+const FactionAbility = styled.div`
+  font-size: 0.8rem;
+  margin-top: 0.5rem;
+
+  strong {
+    color: #c084fc;
+  }
+`;
+
+const SettingsSection = styled.div`
+  margin-bottom: 2rem;
+  
+  h3 {
+    margin-bottom: 0.5rem;
+  }
+`;
+
+const Select = styled.select`
+  width: 100%;
+  padding: 0.5rem;
+  font-size: 1rem;
+  border: none;
+  border-radius: 4px;
+  background-color: #444a57;
+  color: white;
+`;
+
+const SettingHint = styled.p`
+  font-size: 0.8rem;
+  margin: 0.5rem 0 0;
+  opacity: 0.8;
+`;
+
 const Lobby: React.FC = () => {
   const { 
     myId, 
     lobbyState, 
     toggleReady,
     changeFaction,
-    startGame,
-    resetGame
+    changeTeam,
+    setDisconnectPolicy,
+    setLobbyPublic,
+    setLobbyLocked,
+    kickPlayer,
+    startGame
   } = usePeer();
   
-  const [selectedFaction, setSelectedFaction] = useState<Faction | null>(null);
-  
   if (!lobbyState) {
     return <div>Loading...</div>;
   }
@@ -218,12 +282,12 @@ const Lobby: React.FC = () => {
   const players = Object.values(lobbyState.players);
   const myPlayer = lobbyState.players[myId];
   const allPlayersReady = players.every(player => player.isReady);
+  const { teamMode } = lobbyState.settings;
   const canStartGame = allPlayersReady && players.length >= 2;
   
   const handleFactionSelect = (faction: Faction) => {
     if (myPlayer.isReady) return; // Can't change faction when ready
     
-    setSelectedFaction(faction);
     changeFaction(faction);
   };
   
@@ -231,12 +295,14 @@ const Lobby: React.FC = () => {
     <Container>
       <Title>Wartiles Online - Lobby</Title>
       
+      <HostChangeBanner />
+      
       <LobbyCode>
-        Lobby Code: <span>{lobbyState.lobbyId}</span>
+        {lobbyState.name} · Lobby Code: <span>{lobbyState.lobbyId}</span>
       </LobbyCode>
       
       <Card>
-        <h2>Players ({players.length}/{MAX_PLAYERS})</h2>
+        <h2>Players ({players.length}/{lobbyState.settings.maxPlayers})</h2>
         
         <PlayerList>
           {players.map(player => (
@@ -250,21 +316,111 @@ const Lobby: React.FC = () => {
                   {player.faction && (
                     <FactionName>{FACTION_INFO[player.faction].name}</FactionName>
                   )}
+                  {teamMode && (
+                    <FactionName>{player.team ? `Team ${player.team}` : 'No team'}</FactionName>
+                  )}
                 </PlayerDetails>
               </PlayerName>
-              <ReadyStatus isReady={player.isReady}>
-                {player.isReady ? 'Ready' : 'Not Ready'}
-              </ReadyStatus>
+              <PlayerStatus>
+                <ReadyStatus isReady={player.isReady}>
+                  {player.isReady ? 'Ready' : 'Not Ready'}
+                </ReadyStatus>
+                {isHost && player.id !== myId && (
+                  <>
+                    <ModerationButton onClick={() => kickPlayer(player.id, false)}>Kick</ModerationButton>
+                    <ModerationButton onClick={() => kickPlayer(player.id, true)}>Ban</ModerationButton>
+                  </>
+                )}
+              </PlayerStatus>
             </PlayerItem>
           ))}
           
-          {Array.from({ length: MAX_PLAYERS - players.length }).map((_, index) => (
+          {Array.from({ length: Math.max(0, lobbyState.settings.maxPlayers - players.length) }).map((_, index) => (
             <PlayerItem key={`empty-${index}`} style={{ opacity: 0.5 }}>
               <div>Waiting for player...</div>
             </PlayerItem>
           ))}
         </PlayerList>
         
+        <MatchSettingsPanel />
+        
+        <SettingsSection>
+          <h3>Visibility</h3>
+          {isHost ? (
+            <Select
+              value={lobbyState.isPublic ? 'public' : 'private'}
+              onChange={(e) => setLobbyPublic(e.target.value === 'public')}
+            >
+              <option value="public">Public</option>
+              <option value="private">Private</option>
+            </Select>
+          ) : (
+            <div>{lobbyState.isPublic ? 'Public' : 'Private'}</div>
+          )}
+          <SettingHint>
+            {lobbyState.isPublic
+              ? 'Listed in the lobby browser until the game starts.'
+              : 'Players need the lobby code to join.'}
+          </SettingHint>
+        </SettingsSection>
+        
+        <SettingsSection>
+          <h3>Access</h3>
+          {isHost ? (
+            <Select
+              value={lobbyState.locked ? 'locked' : 'open'}
+              onChange={(e) => setLobbyLocked(e.target.value === 'locked')}
+            >
+              <option value="open">Open to new players</option>
+              <option value="locked">Locked</option>
+            </Select>
+          ) : (
+            <div>{lobbyState.locked ? 'Locked' : 'Open to new players'}</div>
+          )}
+          <SettingHint>
+            {lobbyState.hasPassword ? 'Joining needs the lobby password. ' : ''}
+            {lobbyState.banned.length > 0 && `${lobbyState.banned.length} banned. `}
+            {lobbyState.locked && 'Only players already seated can come back.'}
+          </SettingHint>
+        </SettingsSection>
+        
+        <SettingsSection>
+          <h3>If a player disconnects</h3>
+          {isHost ? (
+            <Select
+              value={lobbyState.disconnectPolicy}
+              onChange={(e) => setDisconnectPolicy(e.target.value as DisconnectPolicy)}
+            >
+              {(Object.keys(DISCONNECT_POLICY_INFO) as DisconnectPolicy[]).map(policy => (
+                <option key={policy} value={policy}>{DISCONNECT_POLICY_INFO[policy].name}</option>
+              ))}
+            </Select>
+          ) : (
+            <div>{DISCONNECT_POLICY_INFO[lobbyState.disconnectPolicy].name}</div>
+          )}
+          <SettingHint>
+            After {DISCONNECT_GRACE_MS / 1000}s without reconnecting: {DISCONNECT_POLICY_INFO[lobbyState.disconnectPolicy].description}
+          </SettingHint>
+        </SettingsSection>
+        
+        {teamMode && !myPlayer.isReady && (
+          <SettingsSection>
+            <h3>Your team</h3>
+            <Select
+              value={myPlayer.team ?? ''}
+              onChange={(e) => changeTeam(e.target.value ? Number(e.target.value) : null)}
+            >
+              <option value="">No team</option>
+              {Array.from({ length: TEAM_COUNT }, (_, i) => i + 1).map(team => (
+                <option key={team} value={team}>Team {team}</option>
+              ))}
+            </Select>
+            <SettingHint>
+              Allies claim from each other's borders, can't take each other's tiles and win together.
+            </SettingHint>
+          </SettingsSection>
+        )}
+        
         {!myPlayer.isReady && (
           <FactionSelectionContainer>
             <FactionSelectionTitle>Choose Your Faction</FactionSelectionTitle>
@@ -297,6 +453,13 @@ const Lobby: React.FC = () => {
                       <span>{FACTION_INFO[faction].constructs.DEFENSE}</span>
                     </Construct>
                   </ConstructsList>
+                  <FactionTraits>
+                    {describePassives(FACTION_INFO[faction].passives).map(line => <li key={line}>{line}</li>)}
+                  </FactionTraits>
+                  <FactionAbility>
+                    <strong>{FACTION_INFO[faction].ability.name}</strong>{' '}
+                    ({FACTION_INFO[faction].ability.cooldownMs / 1000}s cooldown): {FACTION_INFO[faction].ability.description}
+                  </FactionAbility>
                 </FactionCard>
               ))}
             </FactionGrid>
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { FACTION_INFO, LobbyListing } from '../types';
+import { createLobbyBrowser } from '../transport';
+
+const List = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  max-height: 320px;
+  overflow-y: auto;
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 1rem;
+  padding: 0.75rem;
+  background-color: #444a57;
+  border-radius: 4px;
+`;
+
+const Details = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  min-width: 0;
+`;
+
+const LobbyName = styled.div`
+  font-weight: bold;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const Meta = styled.div`
+  font-size: 0.8rem;
+  opacity: 0.8;
+`;
+
+const FactionDot = styled.span<{ color: string }>`
+  display: inline-block;
+  width: 10px;
+  height: 10px;
+  border-radius: 50%;
+  margin-right: 4px;
+  background-color: ${props => props.color};
+`;
+
+const JoinButton = styled.button`
+  padding: 0.5rem 1rem;
+  font-size: 0.9rem;
+  background-color: #61dafb;
+  color: #282c34;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  font-weight: bold;
+  white-space: nowrap;
+  
+  &:hover {
+    background-color: #4fa8d1;
+  }
+  
+  &:disabled {
+    background-color: #4a5568;
+    color: white;
+    cursor: not-allowed;
+  }
+`;
+
+const Empty = styled.p`
+  text-align: center;
+  opacity: 0.7;
+`;
+
+const formatAge = (createdAt: number, now: number): string => {
+  const minutes = Math.floor(Math.max(now - createdAt, 0) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+interface LobbyBrowserProps {
+  onJoin: (listing: LobbyListing) => void;
+}
+
+// Public lobbies that are still waiting for players, updated as hosts announce them
+const LobbyBrowser: React.FC<LobbyBrowserProps> = ({ onJoin }) => {
+  const [browser] = useState(createLobbyBrowser);
+  const [listings, setListings] = useState<LobbyListing[]>([]);
+  const [now, setNow] = useState(Date.now());
+  
+  useEffect(() => browser.subscribe(setListings), [browser]);
+  
+  // Keep the ages current between updates
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 10000);
+    return () => clearInterval(intervalId);
+  }, []);
+  
+  if (listings.length === 0) {
+    return <Empty>No public lobbies right now. Create one, or join with a code.</Empty>;
+  }
+  
+  return (
+    <List>
+      {listings.map(listing => {
+        const isFull = listing.playerCount >= listing.maxPlayers;
+        return (
+          <Row key={listing.lobbyId}>
+            <Details>
+              <LobbyName>{listing.name}{listing.hasPassword && ' 🔒'}</LobbyName>
+              <Meta>
+                Hosted by {listing.hostName} · {formatAge(listing.createdAt, now)}
+              </Meta>
+              <Meta>
+                {listing.playerCount}/{listing.maxPlayers} players
+                {listing.factions.length > 0 && ' · '}
+                {listing.factions.map((faction, index) => (
+                  <span key={`${faction}-${index}`} title={FACTION_INFO[faction].name}>
+                    <FactionDot color={FACTION_INFO[faction].baseColor} />
+                  </span>
+                ))}
+              </Meta>
+            </Details>
+            <JoinButton type="button" disabled={isFull} onClick={() => onJoin(listing)}>
+              {isFull ? 'Full' : 'Join'}
+            </JoinButton>
+          </Row>
+        );
+      })}
+    </List>
+  );
+};
+
+export default LobbyBrowser;
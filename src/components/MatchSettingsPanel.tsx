@@ -0,0 +1,222 @@
+import React from 'react';
+import styled from 'styled-components';
+import { usePeer } from '../contexts/PeerContext';
+import { randomMapSeed } from '../engine';
+import { MATCH_SETTING_LIMITS, MatchSettings, TIE_BREAK_DESCRIPTION, WinCondition, WIN_CONDITION_INFO } from '../types';
+
+const Section = styled.div`
+  margin-bottom: 2rem;
+
+  h3 {
+    margin-bottom: 0.5rem;
+  }
+`;
+
+const SettingsGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(2, 1fr);
+  gap: 0.75rem 1rem;
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  font-size: 0.85rem;
+`;
+
+const Select = styled.select`
+  padding: 0.5rem;
+  font-size: 1rem;
+  border: none;
+  border-radius: 4px;
+  background-color: #444a57;
+  color: white;
+`;
+
+const Value = styled.div`
+  padding: 0.5rem 0;
+  font-size: 1rem;
+`;
+
+const SeedRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-top: 0.75rem;
+  font-size: 0.85rem;
+
+  code {
+    font-size: 1rem;
+  }
+`;
+
+const SmallButton = styled.button`
+  padding: 0.25rem 0.75rem;
+  font-size: 0.85rem;
+  background-color: #4a5568;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #2d3748;
+  }
+`;
+
+const Hint = styled.p`
+  font-size: 0.8rem;
+  margin: 0.5rem 0 0;
+  opacity: 0.8;
+`;
+
+// The host picks from a few sensible values rather than typing numbers
+const GRID_SIZES = [12, 16, 24, 32, 48];
+const DURATIONS_MIN = [1, 3, 5, 10, 15, 30];
+const STARTING_GOLD = [0, 25, 50, 100, 200, 500];
+const COST_MULTIPLIERS = [0.5, 0.75, 1, 1.5, 2, 3];
+const DOMINATION_PERCENTS = [25, 33, 50, 66, 75, 90];
+const GOLD_TARGETS = [250, 500, 1000, 2000, 5000];
+const HILL_HOLDS_S = [10, 30, 60, 120, 300];
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+interface SettingOption<K extends keyof MatchSettings> {
+  key: K;
+  label: string;
+  options: MatchSettings[K][];
+  format: (value: MatchSettings[K]) => string;
+  shownFor?: WinCondition[]; // only relevant to some win conditions
+}
+
+// Match rules shown in the lobby: editable by the host, read-only for everyone else
+const MatchSettingsPanel: React.FC = () => {
+  const { myId, lobbyState, updateMatchSettings } = usePeer();
+  if (!lobbyState) return null;
+
+  const { settings } = lobbyState;
+  const isHost = lobbyState.host === myId;
+  const playerCount = Object.keys(lobbyState.players).length;
+
+  const fields: SettingOption<keyof MatchSettings>[] = [
+    {
+      key: 'winCondition',
+      label: 'Win condition',
+      options: Object.keys(WIN_CONDITION_INFO) as WinCondition[],
+      format: value => WIN_CONDITION_INFO[value as WinCondition].name
+    },
+    {
+      key: 'durationMs',
+      label: 'Time limit',
+      options: DURATIONS_MIN.map(minutes => minutes * 60 * 1000),
+      format: value => `${Number(value) / 60000} min`,
+      shownFor: ['territory', 'domination', 'economic', 'hill']
+    },
+    {
+      key: 'dominationPercent',
+      label: 'Map share to win',
+      options: DOMINATION_PERCENTS,
+      format: value => `${value}%`,
+      shownFor: ['domination']
+    },
+    {
+      key: 'goldTarget',
+      label: 'Gold to win',
+      options: GOLD_TARGETS,
+      format: value => String(value),
+      shownFor: ['economic']
+    },
+    {
+      key: 'hillHoldMs',
+      label: 'Hold the centre for',
+      options: HILL_HOLDS_S.map(seconds => seconds * 1000),
+      format: value => `${Number(value) / 1000}s`,
+      shownFor: ['hill']
+    },
+    {
+      key: 'teamMode',
+      label: 'Teams',
+      options: [false, true],
+      format: value => (value ? 'Teams' : 'Free-for-all')
+    },
+    {
+      key: 'gridSize',
+      label: 'Map size',
+      options: GRID_SIZES,
+      format: value => `${value}×${value}`
+    },
+    {
+      key: 'maxPlayers',
+      label: 'Player cap',
+      options: range(Math.max(playerCount, MATCH_SETTING_LIMITS.maxPlayers.min), MATCH_SETTING_LIMITS.maxPlayers.max),
+      format: value => String(value)
+    },
+    {
+      key: 'startingGold',
+      label: 'Starting gold',
+      options: STARTING_GOLD,
+      format: value => String(value)
+    },
+    {
+      key: 'claimCostMultiplier',
+      label: 'Claim costs',
+      options: COST_MULTIPLIERS,
+      format: value => `×${value}`
+    },
+    {
+      key: 'constructCostMultiplier',
+      label: 'Construct costs',
+      options: COST_MULTIPLIERS,
+      format: value => `×${value}`
+    },
+    {
+      key: 'constructCapture',
+      label: 'Captured constructs',
+      options: ['capture', 'destroy'],
+      format: value => (value === 'capture' ? 'Kept' : 'Destroyed')
+    }
+  ];
+
+  // Targets and the time limit only show for the win conditions that use them
+  const visibleFields = fields.filter(field => !field.shownFor || field.shownFor.includes(settings.winCondition));
+
+  return (
+    <Section>
+      <h3>Match settings</h3>
+      <SettingsGrid>
+        {visibleFields.map(({ key, label, options, format }) => (
+          <Field key={key}>
+            {label}
+            {isHost ? (
+              <Select
+                value={String(settings[key])}
+                onChange={(e) => {
+                  const option = options.find(value => String(value) === e.target.value);
+                  if (option !== undefined) updateMatchSettings({ [key]: option });
+                }}
+              >
+                {options.map(value => (
+                  <option key={String(value)} value={String(value)}>{format(value)}</option>
+                ))}
+              </Select>
+            ) : (
+              <Value>{format(settings[key])}</Value>
+            )}
+          </Field>
+        ))}
+      </SettingsGrid>
+      <SeedRow>
+        <span>Map seed: <code>{settings.mapSeed}</code></span>
+        {isHost && (
+          <SmallButton onClick={() => updateMatchSettings({ mapSeed: randomMapSeed() })}>New map</SmallButton>
+        )}
+      </SeedRow>
+      <Hint>
+        {WIN_CONDITION_INFO[settings.winCondition].description} {TIE_BREAK_DESCRIPTION}
+      </Hint>
+    </Section>
+  );
+};
+
+export default MatchSettingsPanel;
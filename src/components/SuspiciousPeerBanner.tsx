@@ -0,0 +1,83 @@
+import React from 'react';
+import styled from 'styled-components';
+import { usePeer } from '../contexts/PeerContext';
+import { kickVotesNeeded } from '../sync';
+
+const Banner = styled.div`
+  background-color: #7c2d12;
+  color: #ffedd5;
+  padding: 0.75rem 1.5rem;
+  border-radius: 4px;
+  margin-bottom: 1.5rem;
+  width: 100%;
+  max-width: 800px;
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 1rem;
+`;
+
+const Reason = styled.div`
+  font-size: 0.85rem;
+  opacity: 0.85;
+  margin-top: 0.25rem;
+`;
+
+const VoteButton = styled.button`
+  padding: 0.5rem 1rem;
+  background-color: #fb923c;
+  color: #282c34;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  font-weight: bold;
+  white-space: nowrap;
+  
+  &:disabled {
+    background-color: #9ca3af;
+    cursor: not-allowed;
+  }
+`;
+
+// Warns about peers whose game updates broke the rules and lets players vote them out
+const SuspiciousPeerBanner: React.FC = () => {
+  const { myId, lobbyState, suspiciousPeers, voteToKick } = usePeer();
+  
+  if (!lobbyState) return null;
+  
+  return (
+    <>
+      {suspiciousPeers.map(suspect => {
+        if (suspect.peerId === myId) {
+          return suspect.kicked
+            ? <Banner key={suspect.peerId}>The other players voted to remove you from this game.</Banner>
+            : null;
+        }
+        
+        const name = lobbyState.players[suspect.peerId]?.name ?? 'A player';
+        if (suspect.kicked) {
+          return <Banner key={suspect.peerId}>{name} was voted out and is being ignored.</Banner>;
+        }
+        
+        const needed = kickVotesNeeded(lobbyState, suspect.peerId);
+        const latestReason = suspect.reasons[suspect.reasons.length - 1];
+        
+        return (
+          <Banner key={suspect.peerId}>
+            <div>
+              <strong>{name} looks suspicious.</strong>
+              {latestReason
+                ? <Reason>Their last update doesn't follow the rules: {latestReason}.</Reason>
+                : <Reason>Other players flagged their updates.</Reason>}
+            </div>
+            <VoteButton onClick={() => voteToKick(suspect.peerId)} disabled={suspect.votes.includes(myId)}>
+              Vote to kick ({suspect.votes.length}/{needed})
+            </VoteButton>
+          </Banner>
+        );
+      })}
+    </>
+  );
+};
+
+export default SuspiciousPeerBanner;
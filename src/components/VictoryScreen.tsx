@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import styled from 'styled-components';
 import { usePeer } from '../contexts/PeerContext';
-import { FACTION_INFO } from '../types';
+import { FACTION_INFO, VictoryReason } from '../types';
 
 const Container = styled.div`
   display: flex;
@@ -53,7 +53,7 @@ const WinnerName = styled.h2`
 const FactionName = styled.h3<{ color: string }>`
   font-size: 1.5rem;
   color: ${props => props.color};
-  margin-bottom: 2rem;
+  margin-bottom: 1rem;
 `;
 
 const StatGrid = styled.div`
@@ -97,6 +97,32 @@ const Button = styled.button`
   transition: all 0.2s ease;
 `;
 
+const Reason = styled.p`
+  font-size: 1.1rem;
+  opacity: 0.8;
+  margin-bottom: 1.5rem;
+`;
+
+const PlayerNames = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  margin-bottom: 2rem;
+`;
+
+const PlayerNameItem = styled.div<{ color: string }>`
+  font-size: 1.25rem;
+  color: ${props => props.color};
+`;
+
+const VICTORY_REASONS: Record<VictoryReason, string> = {
+  elimination: 'Last player holding territory',
+  domination: 'Took over the required share of the map',
+  economic: 'Reached the gold target',
+  hill: 'Held the centre long enough',
+  timeout: 'Ahead when time ran out'
+};
+
 const VictoryScreen: React.FC = () => {
   const { 
     gameState, 
@@ -112,10 +138,65 @@ const VictoryScreen: React.FC = () => {
     return () => clearTimeout(timer);
   }, [resetGame]);
   
-  if (!gameState || !gameState.winner) {
+  if (!gameState || !gameState.outcome) {
     return null;
   }
   
+  const { outcome } = gameState;
+  
+  // A team match is won by the whole team
+  if (outcome.winningTeam !== null) {
+    const members = Object.values(gameState.players).filter(player => player.team === outcome.winningTeam);
+    return (
+      <Container>
+        <Title>Victory!</Title>
+        
+        <WinnerCard>
+          <WinnerName>Team {outcome.winningTeam}</WinnerName>
+          <Reason>{VICTORY_REASONS[outcome.reason]}</Reason>
+          <PlayerNames>
+            {members.map(player => (
+              <PlayerNameItem key={player.id} color={player.color}>
+                {player.name} · {player.tiles.length} tiles
+              </PlayerNameItem>
+            ))}
+          </PlayerNames>
+          
+          <Button onClick={resetGame}>
+            Return to Lobby
+          </Button>
+        </WinnerCard>
+      </Container>
+    );
+  }
+  
+  // Nobody came out ahead, even after the tie-breaks
+  if (!gameState.winner) {
+    const tied = outcome.tiedPlayerIds.map(id => gameState.players[id]).filter(Boolean);
+    return (
+      <Container>
+        <Title>Draw</Title>
+        
+        <WinnerCard>
+          <Reason>
+            {tied.length > 0
+              ? `${VICTORY_REASONS[outcome.reason]}, and level on every tie-break:`
+              : 'Nobody was left who could win.'}
+          </Reason>
+          <PlayerNames>
+            {tied.map(player => (
+              <PlayerNameItem key={player.id} color={player.color}>{player.name}</PlayerNameItem>
+            ))}
+          </PlayerNames>
+          
+          <Button onClick={resetGame}>
+            Return to Lobby
+          </Button>
+        </WinnerCard>
+      </Container>
+    );
+  }
+  
   const winner = gameState.players[gameState.winner];
   const totalTiles = winner.tiles.length;
   
@@ -128,6 +209,7 @@ const VictoryScreen: React.FC = () => {
         <FactionName color={FACTION_INFO[winner.faction].baseColor}>
           {FACTION_INFO[winner.faction].name}
         </FactionName>
+        <Reason>{VICTORY_REASONS[outcome.reason]}</Reason>
         
         <StatGrid>
           <StatCard>
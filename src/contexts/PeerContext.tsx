@@ -1,19 +1,60 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
-import Peer from 'simple-peer';
 import { v4 as uuidv4 } from 'uuid';
 import { 
-  PeerConnectionsType, 
-  PeerMessage, 
   LobbyState, 
+  LobbyListing,
   GameState, 
+  GameAction,
+  ActionIntent,
+  ActionRejection,
+  HostChange,
+  DisconnectPolicy,
+  MatchSettings,
+  SuspiciousPeer,
   Player, 
-  GRID_SIZE, 
-  Tile, 
   Faction,
   ConstructType,
-  GAME_DURATION_MS,
-  FACTION_INFO
+  FACTION_INFO,
+  DEFAULT_MATCH_SETTINGS,
+  PLAYER_PALETTE,
+  TICK_MS
 } from '../types';
+import {
+  initializeGameState,
+  applyAction,
+  advanceTo,
+  auditTransition,
+  clampIssuedAtTick,
+  clampMatchSettings,
+  randomMapSeed,
+  forfeitPlayer,
+  resolveIntents,
+  setPlayerConnected,
+  QueuedIntent
+} from '../engine';
+import { createTransport, Transport } from '../transport';
+import { PeerMessage, PeerPayloads } from '../protocol';
+import { clearSession, hashLobbyPassword, hashSessionToken, loadIdentity, loadSession, SavedSession, saveSession } from '../session';
+import {
+  CLOCK_PING_INTERVAL_MS,
+  ClockSync,
+  electHost,
+  hasKickMajority,
+  HEARTBEAT_INTERVAL_MS,
+  isRightfulSuccessor,
+  LivenessTracker,
+  MAX_PREDICTION_TICKS,
+  measureClockSample,
+  seniorityOrder,
+  SyncReceiver,
+  SyncSender,
+  tickAt
+} from '../sync';
+
+// An intent we've sent but the host hasn't processed yet
+interface PendingIntent extends ActionIntent {
+  spent: { gold: number; units: number };
+}
 
 interface PeerContextProps {
   myId: string;
@@ -21,17 +62,36 @@ interface PeerContextProps {
   setPlayerName: (name: string) => void;
   lobbyState: LobbyState | null;
   gameState: GameState | null;
-  createLobby: () => string;
-  joinLobby: (lobbyId: string) => void;
+  createLobby: (lobbyName: string, isPublic: boolean, password: string) => string;
+  joinLobby: (lobbyId: string, password?: string) => void;
+  savedSession: SavedSession | null;
+  rejoinLobby: () => void;
+  forgetSession: () => void;
   toggleReady: () => void;
   changeFaction: (faction: Faction) => void;
+  changeTeam: (team: number | null) => void;
+  setDisconnectPolicy: (policy: DisconnectPolicy) => void;
+  updateMatchSettings: (changes: Partial<MatchSettings>) => void;
+  setLobbyPublic: (isPublic: boolean) => void;
+  setLobbyLocked: (locked: boolean) => void;
+  kickPlayer: (playerId: string, ban: boolean) => void;
   startGame: () => void;
-  claimTile: (x: number, y: number, goldCost: number, unitCost: number) => boolean;
+  claimTile: (x: number, y: number) => boolean;
+  attackTile: (x: number, y: number, units: number) => boolean;
   buildConstruct: (x: number, y: number, constructType: ConstructType) => boolean;
+  upgradeConstruct: (x: number, y: number) => boolean;
+  convertConstruct: (x: number, y: number) => boolean;
   demolishConstruct: (x: number, y: number) => boolean;
-  peerConnections: PeerConnectionsType;
+  activateAbility: () => boolean;
+  connectedPeers: string[];
   isInLobby: boolean;
   lobbyError: string | null;
+  actionRejection: ActionRejection | null;
+  clearActionRejection: () => void;
+  hostChange: HostChange | null;
+  clearHostChange: () => void;
+  suspiciousPeers: SuspiciousPeer[];
+  voteToKick: (peerId: string) => void;
   resetGame: () => void;
 }
 
@@ -41,276 +101,414 @@ interface PeerProviderProps {
 
 const PeerContext = createContext<PeerContextProps | undefined>(undefined);
 
-// Initial colors for players
-const PLAYER_COLORS = ['#FF5733', '#33FF57', '#3357FF'];
+// How often and how long we keep asking the host to let us back in
+const REJOIN_RETRY_MS = 2000;
+const REJOIN_TIMEOUT_MS = 15000;
+
+// Only the latest few reasons are kept for each suspicious peer
+const MAX_SUSPECT_REASONS = 5;
+
+// The faction's color if nobody else has it, otherwise the first free one in the palette.
+// Every peer picks the same color from the same lobby state.
+const pickColor = (lobbyState: LobbyState, playerId: string, faction: Faction): string => {
+  const usedColors = Object.values(lobbyState.players).filter(p => p.id !== playerId).map(p => p.color);
+  const preferred = FACTION_INFO[faction].baseColor;
+  if (!usedColors.includes(preferred)) return preferred;
+  return PLAYER_PALETTE.find(color => !usedColors.includes(color)) ?? preferred;
+};
+
+// What the lobby browser shows for a public lobby
+const toListing = (lobbyState: LobbyState): LobbyListing => {
+  const players = Object.values(lobbyState.players);
+  return {
+    lobbyId: lobbyState.lobbyId,
+    name: lobbyState.name,
+    hostName: lobbyState.players[lobbyState.host]?.name ?? '',
+    playerCount: players.length,
+    maxPlayers: lobbyState.settings.maxPlayers,
+    factions: players.map(player => player.faction),
+    hasPassword: lobbyState.hasPassword,
+    createdAt: lobbyState.createdAt
+  };
+};
+
+// Session and password hashes stay with the host; lobby state sent to anyone else goes
+// without them. A new host rebuilds them, see promoteToHost.
+const withoutSecrets = (lobbyState: LobbyState): LobbyState => ({ ...lobbyState, sessions: {}, passwordHash: null });
+
+// A fresh lobby seat. The host builds joiners' seats with this too, so nobody can
+// bring their own gold, units or tiles into the match.
+const createPlayer = (id: string, name: string): Player => ({
+  id,
+  name,
+  isReady: false,
+  color: FACTION_INFO[Faction.HUMANS].baseColor, // Default to Humans
+  faction: Faction.HUMANS,
+  gold: 0,
+  units: 0,
+  goldRate: 1, // Base rate
+  unitRate: 0,
+  tiles: []
+});
+
+// Give a joining player a faction and color nobody in the lobby is using yet
+const withAvailableFaction = (lobbyState: LobbyState, player: Player): Player => {
+  const others = Object.values(lobbyState.players).filter(p => p.id !== player.id);
+  
+  const usedFactions = others.map(p => p.faction);
+  const availableFactions = Object.values(Faction).filter(f => !usedFactions.includes(f));
+  const faction = availableFactions.length > 0 ? availableFactions[0] : Faction.HUMANS;
+  
+  return { ...player, faction, color: pickColor(lobbyState, player.id, faction) };
+};
+
+// Teams are optional on a player, so leaving one drops the field
+const withTeam = (player: Player, team: number | null): Player => {
+  const { team: _previous, ...rest } = player;
+  return team === null ? rest : { ...rest, team };
+};
 
 export const PeerProvider: React.FC<PeerProviderProps> = ({ children }) => {
-  const [myId] = useState<string>(uuidv4());
+  // Our id survives a reload, which is what lets us take our seat back
+  const [identity] = useState(() => loadIdentity());
+  const myId = identity.playerId;
+  const [sessionHash, setSessionHash] = useState('');
+  // The password we got into the lobby with, so we can get back in if we lose the host
+  // role, and its hash, in case we end up hosting it
+  const lobbyPassword = useRef('');
+  const knownPasswordHash = useRef<string | null>(null);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(() => loadSession());
   const [playerName, setPlayerName] = useState<string>('');
-  const [peerConnections, setPeerConnections] = useState<PeerConnectionsType>({});
+  const [transport] = useState<Transport>(createTransport);
+  const [connectedPeers, setConnectedPeers] = useState<string[]>([]);
   const [lobbyState, setLobbyState] = useState<LobbyState | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [lobbyError, setLobbyError] = useState<string | null>(null);
+  const [actionRejection, setActionRejection] = useState<ActionRejection | null>(null);
+  const [hostChange, setHostChange] = useState<HostChange | null>(null);
+  const [suspects, setSuspects] = useState<Record<string, SuspiciousPeer>>({});
   
-  // Refs to track and clean up intervals
-  const heartbeatIntervals = useRef<Map<string, NodeJS.Timeout>>(new Map());
-  const lobbyCheckIntervals = useRef<Map<string, NodeJS.Timeout>>(new Map());
-
-  // Clean up intervals when component unmounts
-  useEffect(() => {
-    return () => {
-      // Clear all heartbeat intervals
-      heartbeatIntervals.current.forEach((intervalId) => {
-        clearInterval(intervalId);
-      });
-      
-      // Clear all lobby check intervals
-      lobbyCheckIntervals.current.forEach((intervalId) => {
-        clearInterval(intervalId);
-      });
-    };
+  // The host validates incoming intents against this, so it must never lag a render behind
+  const gameStateRef = useRef<GameState | null>(null);
+  const updateGameState = useCallback((nextGameState: GameState | null) => {
+    gameStateRef.current = nextGameState;
+    setGameState(nextGameState);
   }, []);
-
-  // Initialize a new game state
-  const initializeGameState = (players: Record<string, Player>): GameState => {
-    // Create empty grid
-    const grid: Tile[][] = Array(GRID_SIZE).fill(null).map((_, y) => 
-      Array(GRID_SIZE).fill(null).map((_, x) => ({
-        x,
-        y,
-        ownerId: null,
-        color: null,
-        construct: null,
-        defenseBonus: 0
-      }))
-    );
+  
+  const isHost = !!lobbyState && lobbyState.host === myId;
+  
+  // Sequenced delta/snapshot streams: the host sends, everyone else receives
+  const syncSender = useRef(new SyncSender());
+  const syncReceiver = useRef(new SyncReceiver());
+  
+  // Clients estimate the host's clock and simulate forward from its last update
+  const clock = useRef(new ClockSync());
+  const authoritativeRef = useRef<GameState | null>(null);
+  
+  // Our intents the host hasn't processed yet, shown optimistically until it does
+  const intentSeq = useRef(0);
+  const pendingIntents = useRef<PendingIntent[]>([]);
+  
+  // As host, intents wait here until the next simulation step resolves them in order
+  const intentQueue = useRef<QueuedIntent[]>([]);
+  const intentArrival = useRef(0);
+  
+  // Run the client simulation up to the shared clock's tick, within the prediction window,
+  // then replay our pending intents on top
+  const predictFrom = useCallback((base: GameState): GameState => {
+    const target = Math.min(tickAt(base.startTime, clock.current.now()), base.tick + MAX_PREDICTION_TICKS);
+    return pendingIntents.current.reduce((state, pending) => {
+      const result = applyAction(state, pending.action, myId);
+      return result.ok ? result.state : state;
+    }, advanceTo(base, target));
+  }, [myId]);
+  
+  const adoptHostState = useCallback((state: GameState | null) => {
+    authoritativeRef.current = state;
     
-    // Assign starting positions for each player (equidistant)
-    const playerIds = Object.keys(players);
-    const startingPositions = [
-      { x: 3, y: 3 },
-      { x: GRID_SIZE - 4, y: GRID_SIZE - 4 },
-      { x: 3, y: GRID_SIZE - 4 }
-    ];
+    // Anything the host has processed is now part of its state (or was rejected)
+    const processedSeq = state?.lastIntentSeq[myId] ?? 0;
+    pendingIntents.current = state ? pendingIntents.current.filter(pending => pending.seq > processedSeq) : [];
     
-    playerIds.forEach((playerId, index) => {
-      if (index < startingPositions.length) {
-        const pos = startingPositions[index];
-        grid[pos.y][pos.x].ownerId = playerId;
-        grid[pos.y][pos.x].color = players[playerId].color;
-        
-        // Update player's tiles
-        players[playerId].tiles = [{ x: pos.x, y: pos.y }];
-        
-        // Set initial resources based on faction
-        if (players[playerId].faction === Faction.ALIENS) {
-          players[playerId].unitRate = 1;
-        }
+    updateGameState(state && predictFrom(state));
+  }, [myId, predictFrom, updateGameState]);
+  
+  // Peers voted out of the lobby. Everything they send is ignored from then on.
+  const kickedRef = useRef(new Set<string>());
+  
+  const updateSuspect = useCallback((peerId: string, update: (suspect: SuspiciousPeer) => SuspiciousPeer) => {
+    setSuspects(current => ({
+      ...current,
+      [peerId]: update(current[peerId] ?? { peerId, reasons: [], votes: [], kicked: false })
+    }));
+  }, []);
+  
+  // Every update from the host is checked against our own copy of the rules. We can't
+  // do better than the host's state, but we can warn everyone it doesn't add up.
+  const adoptAuditedState = useCallback((hostId: string, state: GameState | null) => {
+    const previous = authoritativeRef.current;
+    if (previous && state && previous.startTime === state.startTime) {
+      const reasons = auditTransition(previous, state).map(violation => violation.detail);
+      if (reasons.length > 0) {
+        console.warn(`Impossible game update from ${hostId}: ${reasons.join('; ')}`);
+        updateSuspect(hostId, suspect => ({
+          ...suspect,
+          reasons: [...suspect.reasons, ...reasons].slice(-MAX_SUSPECT_REASONS)
+        }));
       }
-    });
+    }
+    adoptHostState(state);
+  }, [adoptHostState, updateSuspect]);
+  
+  const recordKickVote = useCallback((suspectId: string, voterId: string) => {
+    updateSuspect(suspectId, suspect => (
+      suspect.votes.includes(voterId) ? suspect : { ...suspect, votes: [...suspect.votes, voterId] }
+    ));
+  }, [updateSuspect]);
+  
+  const clearActionRejection = useCallback(() => setActionRejection(null), []);
+  const clearHostChange = useCallback(() => setHostChange(null), []);
+  
+  // Hosts keep only the hash of a player's session token, ours included when we host
+  useEffect(() => {
+    hashSessionToken(identity.sessionToken).then(setSessionHash);
+  }, [identity]);
+  
+  // Remember the lobby we're seated in so a reload can offer to rejoin it
+  const seatedLobbyId = lobbyState?.players[myId] ? lobbyState.lobbyId : null;
+  const seatedName = seatedLobbyId ? lobbyState?.players[myId].name : null;
+  useEffect(() => {
+    if (!seatedLobbyId || !seatedName) return;
     
-    return {
-      gameStarted: true,
-      currentTurn: playerIds[0], // First player starts (doesn't matter for real-time game)
-      grid,
-      players,
-      gameEndTime: Date.now() + GAME_DURATION_MS,
-      gameOver: false,
-      winner: null
+    const session = { lobbyId: seatedLobbyId, playerName: seatedName };
+    saveSession(session);
+    setSavedSession(session);
+  }, [seatedLobbyId, seatedName]);
+  
+  // Who we've heard from recently, so a vanished host can be replaced
+  const liveness = useRef(new LivenessTracker());
+  const previousHostRef = useRef<string | null>(null);
+  // A takeover that reached us before we noticed the host go quiet, looked at again once we do
+  const deferredTakeover = useRef<PeerMessage | null>(null);
+  
+  // Track which peers the transport can currently reach
+  useEffect(() => {
+    let previousPeers: string[] = [];
+    const unsubscribe = transport.onPeersChanged(peerIds => {
+      previousPeers.filter(id => !peerIds.includes(id)).forEach(id => liveness.current.markGone(id));
+      previousPeers = peerIds;
+      setConnectedPeers(peerIds);
+    });
+    return () => {
+      unsubscribe();
+      transport.disconnect();
     };
-  };
+  }, [transport]);
+  
+  // As host, greet each peer as it connects (and everyone, once we take over), so
+  // joiners know who to send their request to
+  const greetedPeers = useRef<string[]>([]);
+  useEffect(() => {
+    if (!isHost) {
+      greetedPeers.current = [];
+      return;
+    }
+    connectedPeers
+      .filter(peerId => !greetedPeers.current.includes(peerId))
+      .forEach(peerId => transport.sendTo(peerId, { type: 'HOST_HELLO', payload: null, senderId: myId }));
+    greetedPeers.current = connectedPeers;
+  }, [connectedPeers, isHost, myId, transport]);
 
   // Create a new lobby
-  const createLobby = (): string => {
+  const createLobby = (lobbyName: string, isPublic: boolean, password: string): string => {
     const lobbyId = uuidv4().substring(0, 6);
-    const player: Player = {
-      id: myId,
-      name: playerName,
-      isReady: false,
-      color: FACTION_INFO[Faction.HUMANS].baseColor, // Default to Humans
-      faction: Faction.HUMANS,
-      gold: 0,
-      units: 0,
-      goldRate: 1, // Base rate
-      unitRate: 0,
-      tiles: []
-    };
+    const player = createPlayer(myId, playerName);
     
     const newLobbyState: LobbyState = {
       lobbyId,
+      name: lobbyName.trim() || `${playerName}'s lobby`,
+      isPublic,
+      createdAt: Date.now(),
       players: { [myId]: player },
       host: myId,
+      joinOrder: [myId],
+      sessions: { [myId]: sessionHash },
+      disconnectPolicy: 'freeze',
+      settings: { ...DEFAULT_MATCH_SETTINGS, mapSeed: randomMapSeed() },
+      passwordHash: null,
+      hasPassword: !!password,
+      locked: false,
+      banned: [],
       gameStarted: false
     };
     
-    // Store in localStorage with a timestamp to prevent conflicts
-    const storageKey = `lobby-${lobbyId}`;
-    localStorage.setItem(storageKey, JSON.stringify({
-      lobbyState: newLobbyState,
-      createdAt: Date.now()
-    }));
-    
-    setLobbyState(newLobbyState);
-    
-    // Set up a heartbeat to keep this lobby alive and maintain host status
-    const heartbeatId = setInterval(() => {
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const data = JSON.parse(existingData);
-        
-        // Ensure we remain the host by writing back our state
-        if (data.lobbyState) {
-          // Preserve other players but make sure we're the host
-          const updatedLobbyState = { 
-            ...data.lobbyState,
-            host: myId
-          };
-          
-          // Make sure our player data is preserved
-          if (lobbyState && lobbyState.players[myId]) {
-            updatedLobbyState.players[myId] = lobbyState.players[myId];
-          }
-          
-          // Write back to localStorage
-          data.lobbyState = updatedLobbyState;
-          data.lastHeartbeat = Date.now();
-          localStorage.setItem(storageKey, JSON.stringify(data));
-          
-          // Update our state if needed
-          if (JSON.stringify(lobbyState) !== JSON.stringify(updatedLobbyState)) {
-            setLobbyState(updatedLobbyState);
-          }
-        }
-      }
-    }, 2000); // Every 2 seconds
-    
-    // Store the interval ID for cleanup
-    heartbeatIntervals.current.set(lobbyId, heartbeatId);
+    // Open the lobby only once the password hash is in place, so nobody slips in first
+    const passwordHash = password ? hashLobbyPassword(lobbyId, password) : Promise.resolve(null);
+    passwordHash
+      .then(hash => {
+        lobbyPassword.current = password;
+        knownPasswordHash.current = hash;
+        setLobbyState({ ...newLobbyState, passwordHash: hash });
+        return transport.connect(lobbyId, myId, 'create');
+      })
+      .catch((error: Error) => {
+        console.error('Error creating lobby:', error);
+        setLobbyState(null);
+        setLobbyError(error.message);
+      });
     
     return lobbyId;
   };
 
-  // Join an existing lobby
-  const joinLobby = (lobbyId: string) => {
+  // Our join or rejoin request carries our session token (and the lobby password), so it
+  // only ever goes to the host. We hold it until the host greets us with HOST_HELLO.
+  const hostRequest = useRef<PeerMessage | null>(null);
+  const greetingHost = useRef<string | null>(null);
+  const requestFromHost = (request: PeerMessage) => {
+    hostRequest.current = request;
+    if (greetingHost.current) transport.sendTo(greetingHost.current, request);
+  };
+  
+  // Join an existing lobby. The host adds us and answers with LOBBY_STATE.
+  const joinLobby = (lobbyId: string, password: string = '') => {
     // Reset any previous state
     setLobbyError(null);
+    hostRequest.current = null;
+    greetingHost.current = null;
     
-    try {
-      const storageKey = `lobby-${lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      
-      if (!existingData) {
-        setLobbyError('Lobby not found');
-        return;
-      }
-      
-      // Parse the existing lobby data
-      const lobbyData = JSON.parse(existingData);
-      const existingLobbyState = lobbyData.lobbyState as LobbyState;
-      
-      if (Object.keys(existingLobbyState.players).length >= 3) {
-        setLobbyError('Lobby is full');
-        return;
-      }
-      
-      // Find an available faction
-      const usedFactions = Object.values(existingLobbyState.players).map(p => p.faction);
-      const availableFactions = Object.values(Faction).filter(f => !usedFactions.includes(f));
-      const selectedFaction = availableFactions.length > 0 ? availableFactions[0] : Faction.HUMANS;
-
-      // Find an available color
-      const usedColors = Object.values(existingLobbyState.players).map(p => p.color);
-      let selectedColor = FACTION_INFO[selectedFaction].baseColor;
-      if (usedColors.includes(selectedColor)) {
-        // Find any available faction color
-        Object.values(Faction).some(faction => {
-          const color = FACTION_INFO[faction].baseColor;
-          if (!usedColors.includes(color)) {
-            selectedColor = color;
-            return true;
-          }
-          return false;
-        });
-      }
-      
-      // Create our player object
-      const player: Player = {
-        id: myId,
-        name: playerName,
-        isReady: false,
-        color: selectedColor,
-        faction: selectedFaction,
-        gold: 0,
-        units: 0,
-        goldRate: 1, // Base rate
-        unitRate: 0,
-        tiles: []
-      };
-      
-      // Create a copy of the lobby state that includes our player
-      const updatedLobbyState = { ...existingLobbyState };
-      updatedLobbyState.players[myId] = player;
-      
-      // Explicitly preserve the original host
-      // This is crucial to prevent host changing when new players join
-      const originalHost = existingLobbyState.host;
-      updatedLobbyState.host = originalHost;
-      
-      // Update localStorage
-      lobbyData.lobbyState = updatedLobbyState;
-      lobbyData.lastUpdated = Date.now();
-      localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      
-      // Set our local state
-      setLobbyState(updatedLobbyState);
-      
-      // Send a join notification
-      const joinMessage: PeerMessage = {
+    const player = createPlayer(myId, playerName);
+    lobbyPassword.current = password;
+    knownPasswordHash.current = null;
+    if (password) hashLobbyPassword(lobbyId, password).then(hash => { knownPasswordHash.current = hash; });
+    
+    transport.connect(lobbyId, myId, 'join')
+      .then(() => requestFromHost({
         type: 'JOIN_LOBBY',
-        payload: player,
+        payload: { player, sessionToken: identity.sessionToken, password },
         senderId: myId
-      };
-      
-      // Use a unique key for this message to prevent conflicts
-      const messageKey = `${storageKey}-join-${myId}-${Date.now()}`;
-      localStorage.setItem(messageKey, JSON.stringify(joinMessage));
-      
-      // Start a periodic check for lobby updates (not as host)
-      const intervalId = setInterval(() => {
-        const latestData = localStorage.getItem(storageKey);
-        if (latestData) {
-          try {
-            const data = JSON.parse(latestData);
-            const latestLobbyState = data.lobbyState;
-            
-            if (JSON.stringify(latestLobbyState) !== JSON.stringify(lobbyState)) {
-              // Preserve our local player state
-              if (lobbyState && lobbyState.players[myId]) {
-                latestLobbyState.players[myId] = lobbyState.players[myId];
-              }
-              
-              setLobbyState(latestLobbyState);
-            }
-            
-            // Also update our player info in the shared state
-            if (lobbyState && lobbyState.players[myId]) {
-              data.lobbyState.players[myId] = lobbyState.players[myId];
-              localStorage.setItem(storageKey, JSON.stringify(data));
-            }
-          } catch (error) {
-            console.error('Error checking for lobby updates:', error);
+      }))
+      .catch((error: Error) => {
+        console.error('Error joining lobby:', error);
+        setLobbyError(error.message || 'Failed to join lobby');
+      });
+  };
+
+  // Ask the host for our old seat back, retrying until someone is hosting
+  // (the host may itself be mid-handover)
+  const rejoinTimer = useRef<NodeJS.Timeout | null>(null);
+  const stopRejoining = () => {
+    if (rejoinTimer.current) clearInterval(rejoinTimer.current);
+    rejoinTimer.current = null;
+  };
+  
+  const rejoinLobby = () => {
+    if (!savedSession) return;
+    
+    setLobbyError(null);
+    setPlayerName(savedSession.playerName);
+    stopRejoining();
+    hostRequest.current = null;
+    greetingHost.current = null;
+    
+    transport.connect(savedSession.lobbyId, myId, 'join')
+      .then(() => {
+        const startedAt = Date.now();
+        const sendRejoin = () => {
+          if (Date.now() - startedAt > REJOIN_TIMEOUT_MS) {
+            stopRejoining();
+            setLobbyError('Could not reach the host to rejoin');
+            return;
           }
-        }
-      }, 1000);
-      
-      // Store the interval ID for cleanup
-      lobbyCheckIntervals.current.set(lobbyId, intervalId);
-      
-    } catch (error) {
-      console.error('Error joining lobby:', error);
-      setLobbyError('Failed to join lobby');
+          requestFromHost({ type: 'REJOIN', payload: { sessionToken: identity.sessionToken }, senderId: myId });
+        };
+        
+        sendRejoin();
+        rejoinTimer.current = setInterval(sendRejoin, REJOIN_RETRY_MS);
+      })
+      .catch((error: Error) => {
+        console.error('Error rejoining lobby:', error);
+        clearSession();
+        setSavedSession(null);
+        setLobbyError(error.message || 'Failed to rejoin lobby');
+      });
+  };
+  
+  const forgetSession = () => {
+    clearSession();
+    setSavedSession(null);
+  };
+  
+  // As host, give a returning player their seat and the current game. A host that took
+  // over only learns players' sessions as they come back, so the first one counts.
+  const admitRejoin = (playerId: string, hash: string) => {
+    if (!lobbyState || lobbyState.host !== myId) return;
+    
+    const knownHash = lobbyState.sessions[playerId];
+    if (!lobbyState.players[playerId] || (knownHash !== undefined && knownHash !== hash)) {
+      transport.sendTo(playerId, {
+        type: 'REJOIN_REJECTED',
+        payload: { reason: 'Your seat in this lobby is no longer available' },
+        senderId: myId
+      });
+      return;
     }
+    if (knownHash === undefined) setLobbyState({ ...lobbyState, sessions: { ...lobbyState.sessions, [playerId]: hash } });
+    
+    transport.sendTo(playerId, {
+      type: 'REJOIN_ACCEPTED',
+      payload: {
+        lobbyState: withoutSecrets(lobbyState),
+        snapshot: lobbyState.gameStarted ? syncSender.current.current() : null
+      },
+      senderId: myId
+    });
+  };
+  
+  const admitRejoinRef = useRef(admitRejoin);
+  admitRejoinRef.current = admitRejoin;
+  
+  // As host, seat a new player (or take back one reloading in the lobby). passwordHash is
+  // the hash of the password they sent, or null if the lobby has none; sessionHash is
+  // the hash of their session token.
+  const admitJoin = (
+    playerId: string,
+    request: PeerPayloads['JOIN_LOBBY'],
+    passwordHash: string | null,
+    sessionHash: string
+  ) => {
+    if (!lobbyState || lobbyState.host !== myId) return;
+    
+    const refuse = (reason: string) => transport.sendTo(playerId, {
+      type: 'JOIN_REJECTED',
+      payload: { reason },
+      senderId: myId
+    });
+    
+    // Running games only take players back through REJOIN, and a seat is
+    // only handed back to whoever holds its session
+    const isSeated = !!lobbyState.players[playerId];
+    if (lobbyState.banned.includes(playerId)) return refuse('You are banned from this lobby');
+    if (lobbyState.gameStarted) return refuse('The game has already started');
+    const knownSession = lobbyState.sessions[playerId];
+    if (isSeated && knownSession !== undefined && knownSession !== sessionHash) return refuse('That seat belongs to someone else');
+    if (!isSeated) {
+      if (lobbyState.locked) return refuse('The host has locked this lobby');
+      if (Object.keys(lobbyState.players).length >= lobbyState.settings.maxPlayers) return refuse('Lobby is full');
+      if (lobbyState.passwordHash !== passwordHash) return refuse('Wrong lobby password');
+    }
+    
+    const updatedLobbyState = {
+      ...lobbyState,
+      players: { ...lobbyState.players },
+      joinOrder: lobbyState.joinOrder.includes(playerId) ? lobbyState.joinOrder : [...lobbyState.joinOrder, playerId],
+      sessions: { ...lobbyState.sessions, [playerId]: sessionHash }
+    };
+    updatedLobbyState.players[playerId] = withAvailableFaction(lobbyState, createPlayer(playerId, request.player.name));
+    setLobbyState(updatedLobbyState);
   };
+  
+  const admitJoinRef = useRef(admitJoin);
+  admitJoinRef.current = admitJoin;
 
   // Toggle player ready state
   const toggleReady = () => {
@@ -321,22 +519,11 @@ export const PeerProvider: React.FC<PeerProviderProps> = ({ children }) => {
     setLobbyState(updatedLobbyState);
     
     // Sync with other peers
-    broadcastToPeers({
+    transport.broadcast({
       type: 'READY_STATE',
       payload: updatedLobbyState.players[myId].isReady,
       senderId: myId
     });
-    
-    // Update localStorage (for testing)
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.lobbyState = updatedLobbyState;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
-    }
   };
 
   // Change player faction
@@ -345,418 +532,382 @@ export const PeerProvider: React.FC<PeerProviderProps> = ({ children }) => {
     
     const updatedLobbyState = { ...lobbyState };
     updatedLobbyState.players[myId].faction = faction;
-    updatedLobbyState.players[myId].color = FACTION_INFO[faction].baseColor;
+    updatedLobbyState.players[myId].color = pickColor(lobbyState, myId, faction);
     setLobbyState(updatedLobbyState);
     
     // Sync with other peers
-    broadcastToPeers({
-      type: 'READY_STATE', // Reusing this message type
-      payload: { faction, color: FACTION_INFO[faction].baseColor },
+    transport.broadcast({
+      type: 'CHANGE_FACTION',
+      payload: { faction },
       senderId: myId
     });
+  };
+
+  // Pick a team for team matches, or none to play alone
+  const changeTeam = (team: number | null) => {
+    if (!lobbyState || lobbyState.players[myId].isReady) return;
     
-    // Update localStorage (for testing)
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.lobbyState = updatedLobbyState;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
+    setLobbyState({
+      ...lobbyState,
+      players: { ...lobbyState.players, [myId]: withTeam(lobbyState.players[myId], team) }
+    });
+    
+    transport.broadcast({
+      type: 'CHANGE_TEAM',
+      payload: { team },
+      senderId: myId
+    });
+  };
+
+  // As host, choose what happens to players who don't come back in time
+  const setDisconnectPolicy = (disconnectPolicy: DisconnectPolicy) => {
+    if (!lobbyState || lobbyState.host !== myId || lobbyState.gameStarted) return;
+    
+    const updatedLobbyState = { ...lobbyState, disconnectPolicy };
+    setLobbyState(updatedLobbyState);
+  };
+
+  // As host, change the rules of the next match
+  const updateMatchSettings = (changes: Partial<MatchSettings>) => {
+    if (!lobbyState || lobbyState.host !== myId || lobbyState.gameStarted) return;
+    
+    const settings = clampMatchSettings({ ...lobbyState.settings, ...changes }, Object.keys(lobbyState.players).length);
+    setLobbyState({ ...lobbyState, settings });
+  };
+
+  // As host, list the lobby in the lobby browser or take it down
+  const setLobbyPublic = (isPublic: boolean) => {
+    if (!lobbyState || lobbyState.host !== myId) return;
+    
+    setLobbyState({ ...lobbyState, isPublic });
+  };
+
+  // As host, stop new players from joining (seated players can still rejoin)
+  const setLobbyLocked = (locked: boolean) => {
+    if (!lobbyState || lobbyState.host !== myId) return;
+    
+    setLobbyState({ ...lobbyState, locked });
+  };
+
+  // As host, remove a player from the lobby. A banned player can't come back while the
+  // lobby exists, and everyone ignores whatever they still send.
+  const kickPlayer = (playerId: string, ban: boolean) => {
+    if (!lobbyState || lobbyState.host !== myId || playerId === myId) return;
+    
+    const players = { ...lobbyState.players };
+    const sessions = { ...lobbyState.sessions };
+    delete players[playerId];
+    delete sessions[playerId];
+    
+    setLobbyState({
+      ...lobbyState,
+      players,
+      sessions,
+      joinOrder: lobbyState.joinOrder.filter(id => id !== playerId),
+      banned: ban && !lobbyState.banned.includes(playerId) ? [...lobbyState.banned, playerId] : lobbyState.banned
+    });
+    transport.sendTo(playerId, { type: 'KICKED', payload: { banned: ban }, senderId: myId });
+    liveness.current.markGone(playerId);
+    
+    // Mid-game their territory goes back to neutral
+    const current = gameStateRef.current;
+    if (current && !current.gameOver) {
+      const updatedGameState = forfeitPlayer(current, playerId);
+      updateGameState(updatedGameState);
+      publishGameStateRef.current(updatedGameState);
     }
   };
+  
+  const kickPlayerRef = useRef(kickPlayer);
+  kickPlayerRef.current = kickPlayer;
 
   // Start the game
   const startGame = () => {
     if (!lobbyState) return;
     
-    const newGameState = initializeGameState(lobbyState.players);
-    setGameState(newGameState);
+    const newGameState = initializeGameState(
+      lobbyState.players,
+      Date.now(),
+      lobbyState.disconnectPolicy,
+      lobbyState.settings
+    );
+    intentQueue.current = [];
+    updateGameState(newGameState);
     
     // Update lobby state
     const updatedLobbyState = { ...lobbyState, gameStarted: true };
     setLobbyState(updatedLobbyState);
     
-    // Broadcast to peers
-    broadcastToPeers({
+    // Broadcast to peers; the initial state opens the sync stream at seq 0
+    transport.broadcast({
       type: 'START_GAME',
-      payload: newGameState,
+      payload: syncSender.current.reset(newGameState),
       senderId: myId
     });
-    
-    // Update localStorage (for testing)
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.lobbyState = updatedLobbyState;
-        lobbyData.gameState = newGameState;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
+  };
+
+  // As host, send whatever changed since the last update (or a periodic snapshot)
+  const publishGameState = (state: GameState) => {
+    const update = syncSender.current.next(state);
+    if (!update) return;
+    
+    if (update.kind === 'delta') {
+      transport.broadcast({ type: 'STATE_DELTA', payload: update.delta, senderId: myId });
+    } else {
+      transport.broadcast({ type: 'STATE_SNAPSHOT', payload: update.snapshot, senderId: myId });
     }
   };
 
-  // Resource update loop
+  // Fixed-tick simulation loop. Every peer derives the current tick from the shared
+  // clock, so a late or throttled interval catches up instead of drifting. The host's
+  // result is authoritative; clients predict from its last update until the next one.
+  const gameRunning = !!gameState && !gameState.gameOver;
   useEffect(() => {
-    if (!gameState || gameState.gameOver) return;
+    if (!gameRunning) return;
     
-    const updateResources = () => {
-      const updatedGameState = JSON.parse(JSON.stringify(gameState)) as GameState;
-      const currentTime = Date.now();
+    const step = () => {
+      const current = gameStateRef.current;
+      if (!current) return;
       
-      // Check if game should end
-      if (gameState.gameEndTime && currentTime >= gameState.gameEndTime) {
-        // Game over by time
-        const scores: Record<string, number> = {};
-        
-        // Count tiles for each player
-        Object.keys(updatedGameState.players).forEach(playerId => {
-          scores[playerId] = updatedGameState.players[playerId].tiles.length;
-        });
+      if (isHost) {
+        const now = Date.now();
+        const advanced = advanceTo(current, tickAt(current.startTime, clock.current.now()));
         
-        // Find player with most tiles
-        let maxScore = 0;
-        let winner: string | null = null;
+        // Players we haven't heard from start their reconnection grace period
+        const withPresence = Object.keys(advanced.players).reduce(
+          (state, playerId) => setPlayerConnected(state, playerId, playerId === myId || liveness.current.isAlive(playerId, now)),
+          advanced
+        );
+        const withoutKicked = Array.from(kickedRef.current).reduce(forfeitPlayer, withPresence);
+        // Take the queue before resolving it, so an intent that throws can't jam every later step
+        const queued = intentQueue.current;
+        intentQueue.current = [];
+        const { state: updatedGameState, rejections } = resolveIntents(withoutKicked, queued);
         
-        Object.entries(scores).forEach(([playerId, score]) => {
-          if (score > maxScore) {
-            maxScore = score;
-            winner = playerId;
+        // Rejections go out before the state so clients can still match them to their pending intents
+        rejections.forEach(({ actorId, rejection }) => {
+          if (actorId === myId) {
+            setActionRejection(rejection);
+          } else {
+            transport.sendTo(actorId, { type: 'ACTION_REJECTED', payload: rejection, senderId: myId });
           }
         });
         
-        updatedGameState.gameOver = true;
-        updatedGameState.winner = winner;
-        
-        setGameState(updatedGameState);
+        if (updatedGameState === current) return;
         
-        // Update localStorage
-        if (lobbyState) {
-          const storageKey = `lobby-${lobbyState.lobbyId}`;
-          const existingData = localStorage.getItem(storageKey);
-          if (existingData) {
-            const lobbyData = JSON.parse(existingData);
-            lobbyData.gameState = updatedGameState;
-            localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-          }
-        }
-        
-        return;
+        updateGameState(updatedGameState);
+        publishGameStateRef.current(updatedGameState);
+      } else if (authoritativeRef.current) {
+        const predicted = predictFrom(authoritativeRef.current);
+        if (predicted.tick !== current.tick) updateGameState(predicted);
       }
-      
-      // Update resources for each player
-      Object.keys(updatedGameState.players).forEach(playerId => {
-        const player = updatedGameState.players[playerId];
-        
-        // Skip players with no tiles (they're eliminated)
-        if (player.tiles.length === 0) return;
-        
-        // Add resources based on rates
-        player.gold += player.goldRate / 10; // Divide by 10 for smoother increments (10fps)
-        player.units += player.unitRate / 10;
-      });
-      
-      setGameState(updatedGameState);
     };
     
-    const intervalId = setInterval(updateResources, 100); // 10fps
+    const intervalId = setInterval(step, TICK_MS);
     
     return () => clearInterval(intervalId);
-  }, [gameState, lobbyState]);
+  }, [isHost, gameRunning, myId, transport, predictFrom, updateGameState]);
 
-  // Claim a tile on the game grid
-  const claimTile = (x: number, y: number, goldCost: number, unitCost: number): boolean => {
-    if (!gameState || !lobbyState) return false;
-    
-    const tile = gameState.grid[y][x];
-    const player = gameState.players[myId];
-    
-    // Check if player has enough resources
-    if (player.gold < goldCost) return false;
-    if (tile.ownerId !== null && tile.ownerId !== myId && player.units < unitCost) return false;
+  // Clients keep sampling the host's clock while in a lobby
+  const hostId = lobbyState?.host;
+  useEffect(() => {
+    // Keep the estimate if we become host: it's what the game clock runs on
+    if (!hostId) clock.current.reset();
+    if (!hostId || hostId === myId) return;
     
-    // Check if tile is adjacent to player's territory
-    const isAdjacent = player.tiles.some(playerTile => {
-      return (
-        (Math.abs(playerTile.x - x) === 1 && playerTile.y === y) || 
-        (Math.abs(playerTile.y - y) === 1 && playerTile.x === x)
-      );
+    const ping = () => transport.sendTo(hostId, {
+      type: 'CLOCK_PING',
+      payload: { sentAt: Date.now() },
+      senderId: myId
     });
     
-    if (!isAdjacent) return false;
-    
-    // Clone game state for update
-    const updatedGameState = JSON.parse(JSON.stringify(gameState)) as GameState;
+    ping();
+    const intervalId = setInterval(ping, CLOCK_PING_INTERVAL_MS);
     
-    // Spend resources
-    updatedGameState.players[myId].gold -= goldCost;
-    if (tile.ownerId !== null && tile.ownerId !== myId) {
-      updatedGameState.players[myId].units -= unitCost;
+    return () => clearInterval(intervalId);
+  }, [hostId, myId, transport]);
+
+  // Let everyone in the lobby know we're still here
+  const lobbyId = lobbyState?.lobbyId;
+  useEffect(() => {
+    if (!lobbyId) {
+      liveness.current.reset();
+      kickedRef.current.clear();
+      setSuspects({});
+      return;
     }
     
-    // If the tile is owned by another player, remove it from their tiles
-    if (tile.ownerId !== null && tile.ownerId !== myId) {
-      const previousOwner = updatedGameState.players[tile.ownerId];
-      previousOwner.tiles = previousOwner.tiles.filter(t => !(t.x === x && t.y === y));
-      
-      // Check if the previous owner has been eliminated
-      if (previousOwner.tiles.length === 0) {
-        // Player has been eliminated
-        // No need to do anything special here as they have no tiles left
-      }
-    }
+    const intervalId = setInterval(() => {
+      transport.broadcast({ type: 'HEARTBEAT', payload: null, senderId: myId });
+    }, HEARTBEAT_INTERVAL_MS);
     
-    // Update tile
-    updatedGameState.grid[y][x].ownerId = myId;
-    updatedGameState.grid[y][x].color = player.color;
+    return () => clearInterval(intervalId);
+  }, [lobbyId, myId, transport]);
+
+  // Take over as host when ours has gone quiet and we're the most senior player left
+  const promoteToHost = () => {
+    if (!lobbyState) return;
     
-    // Update player's tiles
-    updatedGameState.players[myId].tiles.push({ x, y });
+    const previousHost = lobbyState.host;
+    const previousHostName = lobbyState.players[previousHost]?.name ?? 'The host';
+    
+    // In the lobby the old host simply leaves; mid-game its territory stays on the board
+    const players = { ...lobbyState.players };
+    if (!lobbyState.gameStarted) delete players[previousHost];
+    // Nobody passes the secrets on: we hash our own session, use the password we joined
+    // with, and lock the lobby if we never knew it
+    const passwordHash = lobbyState.hasPassword ? knownPasswordHash.current : null;
+    const updatedLobbyState: LobbyState = {
+      ...lobbyState,
+      players,
+      host: myId,
+      joinOrder: lobbyState.joinOrder.filter(id => id !== previousHost),
+      sessions: { [myId]: sessionHash },
+      passwordHash,
+      locked: lobbyState.locked || (lobbyState.hasPassword && passwordHash === null)
+    };
     
-    // Check for winner by elimination
-    const activePlayers = Object.values(updatedGameState.players).filter(p => p.tiles.length > 0);
-    if (activePlayers.length === 1) {
-      updatedGameState.gameOver = true;
-      updatedGameState.winner = activePlayers[0].id;
+    // Continue the game from the last state the old host sent us, replaying our own
+    // intents it never processed
+    let snapshot = null;
+    const base = authoritativeRef.current;
+    if (base) {
+      const processedSeq = base.lastIntentSeq[myId] ?? 0;
+      pendingIntents.current
+        .filter(pending => pending.seq > processedSeq)
+        .forEach(({ spent, ...intent }) => queueIntent(intent, myId));
+      pendingIntents.current = [];
+      authoritativeRef.current = null;
+      syncReceiver.current.reset();
+      
+      const handedOver = advanceTo(base, tickAt(base.startTime, clock.current.now()));
+      updateGameState(handedOver);
+      snapshot = syncSender.current.reset(handedOver);
     }
     
-    setGameState(updatedGameState);
+    previousHostRef.current = previousHost;
+    setLobbyState(updatedLobbyState);
+    setHostChange({ newHostId: myId, previousHostName });
     
-    // Broadcast to peers
-    broadcastToPeers({
-      type: 'CLAIM_TILE',
-      payload: { 
-        x, 
-        y, 
-        playerId: myId, 
-        goldCost,
-        unitCost,
-        gameState: updatedGameState
-      },
+    transport.broadcast({
+      type: 'HOST_CHANGED',
+      payload: { previousHost, previousHostName, lobbyState: withoutSecrets(updatedLobbyState), snapshot },
       senderId: myId
     });
+  };
+  
+  const promoteToHostRef = useRef(promoteToHost);
+  promoteToHostRef.current = promoteToHost;
+  
+  useEffect(() => {
+    if (!lobbyState || lobbyState.host === myId) return;
     
-    // Update localStorage (for testing)
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.gameState = updatedGameState;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
-    }
+    const checkHost = () => {
+      const now = Date.now();
+      if (liveness.current.isAlive(lobbyState.host, now)) return;
+      
+      const deferred = deferredTakeover.current;
+      deferredTakeover.current = null;
+      if (deferred) return handlePeerMessageRef.current(deferred);
+      
+      const isAlive = (playerId: string) => playerId === myId || liveness.current.isAlive(playerId, now);
+      if (electHost(lobbyState, isAlive) === myId) promoteToHostRef.current();
+    };
     
-    return true;
+    const intervalId = setInterval(checkHost, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [lobbyState, myId]);
+
+  // As host, queue an intent for the next simulation step
+  const queueIntent = (intent: ActionIntent, actorId: string) => {
+    const current = gameStateRef.current;
+    if (!current) return;
+    
+    intentArrival.current += 1;
+    const issuedAtTick = clampIssuedAtTick(intent.issuedAtTick, tickAt(current.startTime, clock.current.now()));
+    intentQueue.current.push({ ...intent, issuedAtTick, actorId, arrival: intentArrival.current });
   };
 
-  // Build a construct on a tile
-  const buildConstruct = (x: number, y: number, constructType: ConstructType): boolean => {
-    if (!gameState || !lobbyState) return false;
-    
-    const tile = gameState.grid[y][x];
-    
-    // Check if tile is owned by the player
-    if (tile.ownerId !== myId) return false;
-    
-    // Check if tile already has a construct
-    if (tile.construct !== null) return false;
-    
-    // Calculate gold cost based on construct type
-    let goldCost = 0;
-    switch (constructType) {
-      case ConstructType.GOLD:
-        goldCost = 20;
-        break;
-      case ConstructType.UNIT:
-        goldCost = 15;
-        break;
-      case ConstructType.DEFENSE:
-        goldCost = 25;
-        break;
-      default:
-        return false;
+  // Every action becomes an intent the host orders and validates. Clients also apply it
+  // locally right away; if the host rejects it the next update rolls it back.
+  const performAction = (action: GameAction): boolean => {
+    const current = gameStateRef.current;
+    if (!current || !lobbyState) return false;
+    
+    // Check locally first so obviously invalid intents never leave the client
+    const result = applyAction(current, action, myId);
+    if (!result.ok) {
+      setActionRejection({ action, reason: result.reason });
+      return false;
     }
     
-    // Check if player has enough gold
-    if (gameState.players[myId].gold < goldCost) return false;
-    
-    // Clone game state for update
-    const updatedGameState = JSON.parse(JSON.stringify(gameState)) as GameState;
-    
-    // Spend resources
-    updatedGameState.players[myId].gold -= goldCost;
-    
-    // Add construct to tile
-    updatedGameState.grid[y][x].construct = {
-      type: constructType,
-      ownerId: myId
+    intentSeq.current += 1;
+    const base = authoritativeRef.current ?? current;
+    const intent: ActionIntent = {
+      seq: intentSeq.current,
+      action,
+      baseRevision: base.revision,
+      issuedAtTick: current.tick
     };
     
-    // Update player rates based on construct type
-    if (constructType === ConstructType.GOLD) {
-      updatedGameState.players[myId].goldRate += 1;
-    } else if (constructType === ConstructType.UNIT) {
-      updatedGameState.players[myId].unitRate += 1;
-    } else if (constructType === ConstructType.DEFENSE) {
-      updatedGameState.grid[y][x].defenseBonus = 10;
+    if (isHost) {
+      queueIntent(intent, myId);
+      return true;
     }
     
-    setGameState(updatedGameState);
+    pendingIntents.current.push({
+      ...intent,
+      spent: {
+        gold: current.players[myId].gold - result.state.players[myId].gold,
+        units: current.players[myId].units - result.state.players[myId].units
+      }
+    });
+    updateGameState(result.state);
     
-    // Broadcast to peers
-    broadcastToPeers({
-      type: 'BUILD_CONSTRUCT',
-      payload: { 
-        x, 
-        y, 
-        playerId: myId, 
-        constructType,
-        gameState: updatedGameState
-      },
+    transport.sendTo(lobbyState.host, {
+      type: action.type,
+      payload: intent,
       senderId: myId
     });
-    
-    // Update localStorage (for testing)
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.gameState = updatedGameState;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
-    }
-    
     return true;
   };
 
+  // Claim a tile on the game grid
+  const claimTile = (x: number, y: number): boolean =>
+    performAction({ type: 'CLAIM_TILE', x, y });
+
+  // Send units against an enemy tile
+  const attackTile = (x: number, y: number, units: number): boolean =>
+    performAction({ type: 'ATTACK_TILE', x, y, units });
+
+  // Build a construct on a tile
+  const buildConstruct = (x: number, y: number, constructType: ConstructType): boolean =>
+    performAction({ type: 'BUILD_CONSTRUCT', x, y, constructType });
+
+  // Raise a construct on a tile by one level
+  const upgradeConstruct = (x: number, y: number): boolean =>
+    performAction({ type: 'UPGRADE_CONSTRUCT', x, y });
+
+  // Rebuild a captured construct to your own faction's design
+  const convertConstruct = (x: number, y: number): boolean =>
+    performAction({ type: 'CONVERT_CONSTRUCT', x, y });
+
   // Demolish a construct on a tile
-  const demolishConstruct = (x: number, y: number): boolean => {
-    if (!gameState || !lobbyState) return false;
-    
-    const tile = gameState.grid[y][x];
-    
-    // Check if tile is owned by the player
-    if (tile.ownerId !== myId) return false;
-    
-    // Check if tile has a construct
-    if (tile.construct === null) return false;
-    
-    // Clone game state for update
-    const updatedGameState = JSON.parse(JSON.stringify(gameState)) as GameState;
-    
-    // Update player rates based on construct being demolished
-    const constructType = tile.construct.type;
-    if (constructType === ConstructType.GOLD) {
-      updatedGameState.players[myId].goldRate -= 1;
-    } else if (constructType === ConstructType.UNIT) {
-      updatedGameState.players[myId].unitRate -= 1;
-    } else if (constructType === ConstructType.DEFENSE) {
-      updatedGameState.grid[y][x].defenseBonus = 0;
-    }
-    
-    // Remove construct from tile
-    updatedGameState.grid[y][x].construct = null;
-    
-    setGameState(updatedGameState);
-    
-    // Broadcast to peers
-    broadcastToPeers({
-      type: 'DEMOLISH_CONSTRUCT',
-      payload: { 
-        x, 
-        y, 
-        playerId: myId,
-        gameState: updatedGameState
-      },
-      senderId: myId
-    });
-    
-    // Update localStorage (for testing)
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.gameState = updatedGameState;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
-    }
-    
-    return true;
-  };
+  const demolishConstruct = (x: number, y: number): boolean =>
+    performAction({ type: 'DEMOLISH_CONSTRUCT', x, y });
 
-  // Move broadcastToPeers function here, above resetGame
-  const broadcastToPeers = (message: PeerMessage) => {
-    // For testing, update localStorage with a unique timestamp to avoid conflicts
-    if (lobbyState) {
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      const messageKey = `${storageKey}-msg-${message.type}-${Date.now()}`;
-      
-      // Add the new message with a unique key
-      localStorage.setItem(messageKey, JSON.stringify(message));
-      
-      // Also update the lobby/game state directly to ensure consistency
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        
-        // Update the relevant state based on message type
-        switch (message.type) {
-          case 'READY_STATE':
-            if (typeof message.payload === 'boolean') {
-              if (lobbyData.lobbyState && lobbyData.lobbyState.players[message.senderId]) {
-                lobbyData.lobbyState.players[message.senderId].isReady = message.payload;
-              }
-            } else if (message.payload.faction && message.payload.color) {
-              if (lobbyData.lobbyState && lobbyData.lobbyState.players[message.senderId]) {
-                lobbyData.lobbyState.players[message.senderId].faction = message.payload.faction;
-                lobbyData.lobbyState.players[message.senderId].color = message.payload.color;
-              }
-            }
-            break;
-            
-          case 'START_GAME':
-            if (lobbyData.lobbyState) {
-              lobbyData.lobbyState.gameStarted = true;
-            }
-            lobbyData.gameState = message.payload;
-            break;
-            
-          case 'CLAIM_TILE':
-          case 'BUILD_CONSTRUCT':
-          case 'DEMOLISH_CONSTRUCT':
-            if (message.payload.gameState) {
-              lobbyData.gameState = message.payload.gameState;
-            }
-            break;
-            
-          case 'GAME_STATE':
-            lobbyData.gameState = message.payload;
-            break;
-        }
-        
-        // Save updated data back to localStorage
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
-    }
-    
-    // In a real WebRTC implementation, we'd send to all peers:
-    Object.values(peerConnections).forEach(peer => {
-      // peer.send(JSON.stringify(message));
-      console.log('Would send to peer:', message);
-    });
-  };
+  // Use this player's faction ability
+  const activateAbility = (): boolean =>
+    performAction({ type: 'USE_ABILITY' });
+
+  const publishGameStateRef = useRef(publishGameState);
+  publishGameStateRef.current = publishGameState;
 
   // Reset the game
   const resetGame = useCallback(() => {
-    setGameState(null);
+    updateGameState(null);
     
     if (lobbyState) {
-      const lobbyId = lobbyState.lobbyId;
       const updatedLobbyState = { ...lobbyState, gameStarted: false };
       const updatedPlayers = { ...updatedLobbyState.players };
       
@@ -767,288 +918,344 @@ export const PeerProvider: React.FC<PeerProviderProps> = ({ children }) => {
         updatedPlayers[id].gold = 0;
         updatedPlayers[id].units = 0;
         updatedPlayers[id].goldRate = 1;
-        updatedPlayers[id].unitRate = id === myId && updatedPlayers[id].faction === Faction.ALIENS ? 1 : 0;
+        updatedPlayers[id].unitRate = 0; // faction bonuses are applied when the next game starts
       });
       
       updatedLobbyState.players = updatedPlayers;
       setLobbyState(updatedLobbyState);
       
-      // Update localStorage (for testing)
-      const storageKey = `lobby-${lobbyId}`;
-      const existingData = localStorage.getItem(storageKey);
-      if (existingData) {
-        const lobbyData = JSON.parse(existingData);
-        lobbyData.lobbyState = updatedLobbyState;
-        lobbyData.gameState = null;
-        localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-      }
-      
       // Broadcast the reset to all peers
-      broadcastToPeers({
+      transport.broadcast({
         type: 'GAME_STATE',
         payload: null,
         senderId: myId
       });
     }
-  }, [lobbyState, myId]);
+  }, [lobbyState, myId, transport, updateGameState]);
 
-  // Mock function to handle incoming peer messages
-  // In a real app, this would be called by WebRTC data channel event listeners
+  // Handle messages delivered by the transport
   const handlePeerMessage = useCallback((message: PeerMessage) => {
     const { type, payload, senderId } = message;
+    if (kickedRef.current.has(senderId) || lobbyState?.banned.includes(senderId)) return;
+    // Once we're in a lobby, peers without a seat can only ask for one
+    if (lobbyState && !lobbyState.players[senderId] && type !== 'JOIN_LOBBY' && type !== 'REJOIN') return;
+    liveness.current.markSeen(senderId, Date.now());
     
     switch (type) {
-      case 'JOIN_LOBBY':
-        if (lobbyState) {
-          const updatedLobbyState = { ...lobbyState };
-          updatedLobbyState.players[senderId] = payload;
-          setLobbyState(updatedLobbyState);
+      case 'HOST_HELLO':
+        if (lobbyState) break;
+        
+        greetingHost.current = senderId;
+        if (hostRequest.current) transport.sendTo(senderId, hostRequest.current);
+        break;
+        
+      case 'JOIN_LOBBY': {
+        // Only the host admits players; everyone else learns via LOBBY_STATE. See admitJoin.
+        if (!lobbyState || lobbyState.host !== myId) break;
+        
+        const passwordHash = lobbyState.passwordHash
+          ? hashLobbyPassword(lobbyState.lobbyId, payload.password)
+          : Promise.resolve(null);
+        Promise.all([passwordHash, hashSessionToken(payload.sessionToken)])
+          .then(([hash, joinerSession]) => admitJoinRef.current(senderId, payload, hash, joinerSession));
+        break;
+      }
+        
+      case 'JOIN_REJECTED':
+        if (lobbyState) break;
+        
+        transport.disconnect();
+        setLobbyError(payload.reason);
+        break;
+        
+      case 'KICKED':
+        if (!lobbyState || senderId !== lobbyState.host) break;
+        
+        // Leave for good; there's no seat to rejoin
+        transport.disconnect();
+        clearSession();
+        setSavedSession(null);
+        syncReceiver.current.reset();
+        adoptHostState(null);
+        setLobbyState(null);
+        setLobbyError(payload.banned ? 'The host banned you from the lobby' : 'The host removed you from the lobby');
+        break;
+        
+      case 'LOBBY_STATE':
+        // Accept the host's view of the lobby once it includes us
+        if (payload.host === senderId && payload.players[myId] && (lobbyState?.host ?? greetingHost.current) === senderId) {
+          setLobbyState(payload);
+        }
+        break;
+        
+      case 'REJOIN':
+        // Checked once the token is hashed; see admitRejoin
+        if (!lobbyState || lobbyState.host !== myId) break;
+        
+        hashSessionToken(payload.sessionToken).then(hash => admitRejoinRef.current(senderId, hash));
+        break;
+        
+      case 'REJOIN_ACCEPTED': {
+        if (lobbyState || payload.lobbyState.host !== senderId) break;
+        
+        stopRejoining();
+        setLobbyState(payload.lobbyState);
+        
+        if (payload.snapshot) {
+          const { snapshot } = payload;
+          intentSeq.current = Math.max(intentSeq.current, snapshot.state.lastIntentSeq[myId] ?? 0);
+          pendingIntents.current = [];
+          syncReceiver.current.reset();
+          adoptHostState(syncReceiver.current.receiveSnapshot(snapshot));
+        }
+        break;
+      }
+        
+      case 'REJOIN_REJECTED':
+        if (lobbyState) break;
+        
+        stopRejoining();
+        clearSession();
+        setSavedSession(null);
+        setLobbyError(payload.reason);
+        break;
+        
+      case 'HEARTBEAT':
+        // Liveness is recorded for every message below; nothing else to do
+        break;
+        
+      case 'HOST_CHANGED': {
+        if (!lobbyState || payload.lobbyState.host !== senderId) break;
+        
+        // Only a takeover from the host we know counts. If two players claimed it at
+        // once, the more senior one wins.
+        const order = seniorityOrder(lobbyState);
+        const replacesOurHost = payload.previousHost === lobbyState.host;
+        const outranksRival = payload.previousHost === previousHostRef.current &&
+          order.indexOf(senderId) < order.indexOf(lobbyState.host);
+        if (!replacesOurHost && !outranksRival) break;
+        
+        // And only from whoever we'd have elected ourselves, once that host went quiet. We
+        // can't tell if we are the one who went quiet, so as that host we take their word.
+        const now = Date.now();
+        const isAlive = (playerId: string) =>
+          (playerId === myId && playerId !== payload.previousHost) || liveness.current.isAlive(playerId, now);
+        if (!isRightfulSuccessor(lobbyState, payload.previousHost, senderId, isAlive)) {
+          if (lobbyState.players[senderId]) deferredTakeover.current = message;
+          break;
+        }
+        
+        deferredTakeover.current = null;
+        previousHostRef.current = payload.previousHost;
+        setHostChange({ newHostId: senderId, previousHostName: payload.previousHostName });
+        
+        // A host that was only lagging got replaced. In the lobby it lost its seat and joins
+        // again like anyone else; mid-game it kept it, and REJOIN below hands it back.
+        if (!payload.lobbyState.players[myId]) {
+          setLobbyState(null);
+          transport.sendTo(senderId, {
+            type: 'JOIN_LOBBY',
+            payload: { player: lobbyState.players[myId], sessionToken: identity.sessionToken, password: lobbyPassword.current },
+            senderId: myId
+          });
+          break;
+        }
+        setLobbyState(payload.lobbyState);
+        
+        // The new host has no record of our session until we hand it our token
+        transport.sendTo(senderId, { type: 'REJOIN', payload: { sessionToken: identity.sessionToken }, senderId: myId });
+        
+        if (payload.snapshot) {
+          syncReceiver.current.reset();
+          adoptAuditedState(senderId, syncReceiver.current.receiveSnapshot(payload.snapshot));
           
-          // Update localStorage to reflect the new player
-          const storageKey = `lobby-${lobbyState.lobbyId}`;
-          const existingData = localStorage.getItem(storageKey);
-          if (existingData) {
-            const lobbyData = JSON.parse(existingData);
-            lobbyData.lobbyState = updatedLobbyState;
-            localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-          }
+          // Resend whatever the old host never got to
+          pendingIntents.current.forEach(({ spent, ...intent }) => {
+            transport.sendTo(senderId, { type: intent.action.type, payload: intent, senderId: myId });
+          });
         }
         break;
+      }
         
       case 'READY_STATE':
+      case 'CHANGE_FACTION':
+      case 'CHANGE_TEAM':
         if (lobbyState) {
           const updatedLobbyState = { ...lobbyState };
           if (updatedLobbyState.players[senderId]) {
-            if (typeof payload === 'boolean') {
+            if (type === 'READY_STATE') {
               updatedLobbyState.players[senderId].isReady = payload;
-            } else if (payload.faction && payload.color) {
+            } else if (type === 'CHANGE_FACTION') {
               updatedLobbyState.players[senderId].faction = payload.faction;
-              updatedLobbyState.players[senderId].color = payload.color;
+              updatedLobbyState.players[senderId].color = pickColor(lobbyState, senderId, payload.faction);
+            } else {
+              updatedLobbyState.players[senderId] = withTeam(updatedLobbyState.players[senderId], payload.team);
             }
             setLobbyState(updatedLobbyState);
-            
-            // Update localStorage
-            const storageKey = `lobby-${lobbyState.lobbyId}`;
-            const existingData = localStorage.getItem(storageKey);
-            if (existingData) {
-              const lobbyData = JSON.parse(existingData);
-              lobbyData.lobbyState = updatedLobbyState;
-              localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-            }
           }
         }
         break;
         
-      case 'START_GAME':
-        setGameState(payload);
-        if (lobbyState) {
-          const updatedLobbyState = { ...lobbyState, gameStarted: true };
-          setLobbyState(updatedLobbyState);
-          
-          // Update localStorage
-          const storageKey = `lobby-${lobbyState.lobbyId}`;
-          const existingData = localStorage.getItem(storageKey);
-          if (existingData) {
-            const lobbyData = JSON.parse(existingData);
-            lobbyData.lobbyState = updatedLobbyState;
-            lobbyData.gameState = payload;
-            localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-          }
-        }
+      case 'START_GAME': {
+        if (!lobbyState || senderId !== lobbyState.host) break;
+        
+        pendingIntents.current = [];
+        adoptHostState(syncReceiver.current.receiveSnapshot(payload));
+        const updatedLobbyState = { ...lobbyState, gameStarted: true };
+        setLobbyState(updatedLobbyState);
+        
         break;
+      }
         
       case 'CLAIM_TILE':
+      case 'ATTACK_TILE':
       case 'BUILD_CONSTRUCT':
+      case 'UPGRADE_CONSTRUCT':
+      case 'CONVERT_CONSTRUCT':
       case 'DEMOLISH_CONSTRUCT':
-        if (payload.gameState) {
-          setGameState(payload.gameState);
-          
-          // Update localStorage
-          if (lobbyState) {
-            const storageKey = `lobby-${lobbyState.lobbyId}`;
-            const existingData = localStorage.getItem(storageKey);
-            if (existingData) {
-              const lobbyData = JSON.parse(existingData);
-              lobbyData.gameState = payload.gameState;
-              localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-            }
-          }
+      case 'USE_ABILITY': {
+        // Intents are only meaningful to the host, which validates them against its own state
+        if (!lobbyState || lobbyState.host !== myId) break;
+        
+        queueIntentRef.current(payload, senderId);
+        break;
+      }
+        
+      case 'ACTION_REJECTED': {
+        if (!lobbyState || senderId !== lobbyState.host) break;
+        
+        // Tell the player what the rolled-back action had cost them
+        const pending = pendingIntents.current.find(p => p.seq === payload.seq);
+        setActionRejection(pending && payload.reason === 'CONTESTED'
+          ? { ...payload, refund: pending.spent }
+          : payload);
+        break;
+      }
+        
+      case 'STATE_DELTA': {
+        // Only the host's state is authoritative
+        if (!lobbyState || senderId !== lobbyState.host) break;
+        
+        const result = syncReceiver.current.receiveDelta(payload, authoritativeRef.current);
+        if (result.ok) {
+          adoptAuditedState(senderId, result.state);
+        } else if (result.needsSnapshot) {
+          // We missed an update; ask the host for the full state
+          transport.sendTo(lobbyState.host, {
+            type: 'REQUEST_SNAPSHOT',
+            payload: null,
+            senderId: myId
+          });
         }
         break;
+      }
         
-      case 'GAME_STATE':
-        setGameState(payload);
+      case 'STATE_SNAPSHOT':
+        if (!lobbyState || senderId !== lobbyState.host) break;
         
-        // Update localStorage
-        if (lobbyState) {
-          const storageKey = `lobby-${lobbyState.lobbyId}`;
-          const existingData = localStorage.getItem(storageKey);
-          if (existingData) {
-            const lobbyData = JSON.parse(existingData);
-            lobbyData.gameState = payload;
-            localStorage.setItem(storageKey, JSON.stringify(lobbyData));
-          }
+        adoptAuditedState(senderId, syncReceiver.current.receiveSnapshot(payload));
+        break;
+        
+      case 'REQUEST_SNAPSHOT': {
+        if (!lobbyState || lobbyState.host !== myId) break;
+        
+        const snapshot = syncSender.current.current();
+        if (snapshot) {
+          transport.sendTo(senderId, { type: 'STATE_SNAPSHOT', payload: snapshot, senderId: myId });
         }
         break;
+      }
+        
+      case 'GAME_STATE':
+        // Only used by the host to clear the game when returning to the lobby
+        if (!lobbyState || senderId !== lobbyState.host || payload !== null) break;
+        
+        syncReceiver.current.reset();
+        adoptHostState(null);
+        break;
+        
+      case 'CLOCK_PING':
+        if (!lobbyState || lobbyState.host !== myId) break;
+        
+        transport.sendTo(senderId, {
+          type: 'CLOCK_PONG',
+          payload: { sentAt: payload.sentAt, hostTime: clock.current.now() },
+          senderId: myId
+        });
+        break;
+        
+      case 'CLOCK_PONG':
+        if (!lobbyState || senderId !== lobbyState.host) break;
+        
+        clock.current.addSample(measureClockSample(payload.sentAt, payload.hostTime, Date.now()));
+        break;
+        
+      case 'KICK_VOTE':
+        if (!lobbyState || payload.suspectId === senderId) break;
         
-      default:
-        console.log('Unknown message type:', type);
+        recordKickVote(payload.suspectId, senderId);
+        break;
     }
-  }, [lobbyState, setGameState, setLobbyState]);
+  }, [lobbyState, myId, transport, adoptHostState, adoptAuditedState, recordKickVote, identity.sessionToken, setLobbyState]);
 
-  // Set up a polling mechanism to check for new messages (for testing)
+  // Vote to remove a peer whose updates broke the rules
+  const voteToKick = (peerId: string) => {
+    if (!lobbyState || peerId === myId) return;
+    
+    recordKickVote(peerId, myId);
+    transport.broadcast({ type: 'KICK_VOTE', payload: { suspectId: peerId }, senderId: myId });
+  };
+
+  // Once most of the other players agree, everyone stops listening to the suspect. If it
+  // was the host, it goes quiet and the usual host migration takes over; the host
+  // forfeits a kicked player's territory on its next step.
   useEffect(() => {
     if (!lobbyState) return;
     
-    const storageKey = `lobby-${lobbyState.lobbyId}`;
-    
-    const checkForUpdates = () => {
-      // Check for new messages
-      const lastMessageKey = `${storageKey}-lastMessage`;
-      const messageData = localStorage.getItem(lastMessageKey);
+    Object.values(suspects).forEach(suspect => {
+      if (suspect.kicked || !hasKickMajority(lobbyState, suspect.peerId, suspect.votes)) return;
       
-      if (messageData) {
-        try {
-          const message = JSON.parse(messageData) as PeerMessage;
-          if (message.senderId !== myId) {
-            handlePeerMessage(message);
-            
-            // Clear the message so we don't process it again
-            // But add a timestamp to make it unique to avoid race conditions
-            localStorage.setItem(
-              `${lastMessageKey}-processed-${Date.now()}`, 
-              messageData
-            );
-            localStorage.removeItem(lastMessageKey);
-          }
-        } catch (error) {
-          console.error('Error parsing message:', error);
-        }
-      }
-      
-      // Check for lobby and game state updates
-      const lobbyData = localStorage.getItem(storageKey);
-      if (lobbyData) {
-        try {
-          const data = JSON.parse(lobbyData);
-          const storedLobbyState = data.lobbyState;
-          const storedGameState = data.gameState;
-          
-          // Update lobby state if it's different and we're not the ones who changed it
-          if (
-            storedLobbyState && 
-            JSON.stringify(storedLobbyState) !== JSON.stringify(lobbyState) &&
-            (
-              // If we've made a local change to the lobby state, don't overwrite it
-              !storedLobbyState.players[myId] || 
-              storedLobbyState.players[myId].isReady === lobbyState.players[myId]?.isReady
-            )
-          ) {
-            // Preserve our local player state
-            if (lobbyState && lobbyState.players[myId]) {
-              storedLobbyState.players[myId] = lobbyState.players[myId];
-            }
-            setLobbyState(storedLobbyState);
-          }
-          
-          // Update game state if it's different
-          if (
-            storedGameState && 
-            JSON.stringify(storedGameState) !== JSON.stringify(gameState)
-          ) {
-            // If both states exist, merge them carefully to avoid overwriting local changes
-            if (gameState) {
-              // If an important game action occurred, take the newer state
-              // For example, if a tile was claimed or a construct was built
-              const hasImportantChanges = 
-                JSON.stringify(storedGameState.grid) !== JSON.stringify(gameState.grid) ||
-                storedGameState.gameOver !== gameState.gameOver;
-                
-              if (hasImportantChanges) {
-                setGameState(storedGameState);
-              }
-            } else {
-              // If we don't have a game state yet, use the stored one
-              setGameState(storedGameState);
-            }
-          }
-        } catch (error) {
-          console.error('Error parsing lobby data:', error);
-        }
+      if (suspect.peerId !== myId) {
+        kickedRef.current.add(suspect.peerId);
+        liveness.current.markGone(suspect.peerId);
+        
+        // The host also bans them, so they can't simply join again
+        if (lobbyState.host === myId) kickPlayerRef.current(suspect.peerId, true);
       }
-    };
-    
-    // Check immediately
-    checkForUpdates();
-    
-    // Then check periodically
-    const interval = setInterval(checkForUpdates, 500); // Check more frequently (500ms)
-    
-    return () => clearInterval(interval);
-  }, [lobbyState, gameState, myId, handlePeerMessage]);
+      updateSuspect(suspect.peerId, current => ({ ...current, kicked: true }));
+    });
+  }, [suspects, lobbyState, myId, updateSuspect]);
+
+  const queueIntentRef = useRef(queueIntent);
+  queueIntentRef.current = queueIntent;
 
-  // Listen for localStorage changes from other tabs
+  // As host, share every lobby change so remote players stay in sync
   useEffect(() => {
-    const handleStorageChange = (event: StorageEvent) => {
-      if (!event.key || !event.newValue || !lobbyState) return;
-      
-      const storageKey = `lobby-${lobbyState.lobbyId}`;
-      
-      // Check if this is a message by checking the key pattern
-      if (event.key.startsWith(`${storageKey}-msg-`) || 
-          event.key.startsWith(`${storageKey}-join-`)) {
-        try {
-          const message = JSON.parse(event.newValue) as PeerMessage;
-          if (message.senderId !== myId) {
-            handlePeerMessage(message);
-          }
-        } catch (error) {
-          console.error('Error handling storage event message:', error);
-        }
-        return;
-      }
-      
-      // Handle direct lobby state changes
-      if (event.key === storageKey) {
-        try {
-          const data = JSON.parse(event.newValue);
-          
-          // Update lobby state if it exists and is different
-          if (data.lobbyState && JSON.stringify(data.lobbyState) !== JSON.stringify(lobbyState)) {
-            // Don't change our ready state based on other tabs' updates
-            if (lobbyState && lobbyState.players[myId] && data.lobbyState.players[myId]) {
-              data.lobbyState.players[myId] = {
-                ...data.lobbyState.players[myId],
-                isReady: lobbyState.players[myId].isReady
-              };
-            }
-            
-            // Special handling for host: 
-            // - If we created the lobby, we should remain the host
-            // - Otherwise use the value from localStorage
-            if (heartbeatIntervals.current.has(lobbyState.lobbyId)) {
-              data.lobbyState.host = myId;
-            }
-            
-            setLobbyState(data.lobbyState);
-          }
-          
-          // Update game state
-          if (data.gameState && JSON.stringify(data.gameState) !== JSON.stringify(gameState)) {
-            setGameState(data.gameState);
-          }
-        } catch (error) {
-          console.error('Error handling lobby state change:', error);
-        }
-      }
-    };
-    
-    window.addEventListener('storage', handleStorageChange);
+    if (!lobbyState || lobbyState.host !== myId) return;
     
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-    };
-  }, [myId, lobbyState, gameState, handlePeerMessage]);
+    transport.broadcast({
+      type: 'LOBBY_STATE',
+      payload: withoutSecrets(lobbyState),
+      senderId: myId
+    });
+  }, [lobbyState, myId, transport]);
+
+  // As host, keep a public lobby's listing current until the game starts. Compared as a
+  // string so that changes the listing doesn't show (e.g. ready toggles) don't republish it.
+  const listing = lobbyState && lobbyState.host === myId && lobbyState.isPublic && !lobbyState.locked && !lobbyState.gameStarted
+    ? JSON.stringify(toListing(lobbyState))
+    : null;
+  useEffect(() => {
+    transport.publishListing(listing ? JSON.parse(listing) as LobbyListing : null);
+  }, [listing, transport]);
+
+  // Route transport messages to the latest handler without resubscribing
+  const handlePeerMessageRef = useRef(handlePeerMessage);
+  handlePeerMessageRef.current = handlePeerMessage;
+
+  useEffect(() => {
+    return transport.onMessage(message => handlePeerMessageRef.current(message));
+  }, [transport]);
 
   return (
     <PeerContext.Provider
@@ -1060,15 +1267,34 @@ export const PeerProvider: React.FC<PeerProviderProps> = ({ children }) => {
         gameState,
         createLobby,
         joinLobby,
+        savedSession,
+        rejoinLobby,
+        forgetSession,
         toggleReady,
         changeFaction,
+        changeTeam,
+        setDisconnectPolicy,
+        updateMatchSettings,
+        setLobbyPublic,
+        setLobbyLocked,
+        kickPlayer,
         startGame,
         claimTile,
+        attackTile,
         buildConstruct,
+        upgradeConstruct,
+        convertConstruct,
         demolishConstruct,
-        peerConnections,
+        activateAbility,
+        connectedPeers,
         isInLobby: !!lobbyState,
         lobbyError,
+        actionRejection,
+        clearActionRejection,
+        hostChange,
+        clearHostChange,
+        suspiciousPeers: Object.values(suspects),
+        voteToKick,
         resetGame,
       }}
     >
@@ -0,0 +1,90 @@
+import { ConstructType, Faction, GameAction, GameState } from '../types';
+import { auditTransition } from './audit';
+import { advanceTo } from './engine';
+import { act, startGame } from './testFixtures';
+
+const richGame = (): GameState => startGame({ a: { gold: 100 }, b: { gold: 100 } });
+
+const apply = (state: GameState, ...actions: GameAction[]): GameState =>
+  actions.reduce((current, action) => act(current, action, 'a'), state);
+
+const kinds = (prev: GameState, next: GameState) => auditTransition(prev, next).map(v => v.kind);
+
+test('accepts anything the rules produce', () => {
+  const start = richGame();
+  const next = apply(
+    advanceTo(start, 50),
+    { type: 'CLAIM_TILE', x: 4, y: 3 },
+    { type: 'CLAIM_TILE', x: 5, y: 3 },
+    { type: 'BUILD_CONSTRUCT', x: 5, y: 3, constructType: ConstructType.GOLD },
+    { type: 'UPGRADE_CONSTRUCT', x: 5, y: 3 },
+    { type: 'USE_ABILITY' }
+  );
+
+  expect(auditTransition(start, next)).toEqual([]);
+});
+
+test('accepts constructs captured in an attack and then converted', () => {
+  const start = richGame();
+  start.grid = start.grid.map(row => row.map(tile => ({ ...tile, terrain: 'plains' as const })));
+  start.players.a.units = 100;
+  start.players.b.faction = Faction.ROBOTS;
+  start.players.b.tiles.push({ x: 4, y: 3 });
+  start.players.b.goldRate += 1;
+  start.grid[3][4] = {
+    ...start.grid[3][4],
+    ownerId: 'b',
+    construct: { type: ConstructType.GOLD, ownerId: 'b', level: 1, faction: Faction.ROBOTS }
+  };
+
+  const next = apply(start, { type: 'ATTACK_TILE', x: 4, y: 3, units: 100 }, { type: 'CONVERT_CONSTRUCT', x: 4, y: 3 });
+
+  expect(next.grid[3][4].construct).toMatchObject({ ownerId: 'a', faction: Faction.HUMANS });
+  expect(auditTransition(start, next)).toEqual([]);
+});
+
+test('flags resources beyond what the rates allow', () => {
+  const start = richGame();
+  const next = advanceTo(start, 10);
+  next.players.a.gold = 10000;
+
+  expect(auditTransition(start, next)).toEqual([
+    { playerId: 'a', kind: 'RESOURCE_GAIN', detail: 'a has 10,000 gold but could have at most 101' }
+  ]);
+});
+
+test('flags claims that skip the gold cost', () => {
+  const start = richGame();
+  const next = apply(start, { type: 'CLAIM_TILE', x: 4, y: 3 });
+  next.players.a.gold = start.players.a.gold;
+
+  expect(kinds(start, next)).toEqual(['RESOURCE_GAIN']);
+});
+
+test('flags claims away from the player territory', () => {
+  const start = richGame();
+  const next = JSON.parse(JSON.stringify(start)) as GameState;
+  next.grid[10][10].ownerId = 'a';
+  next.players.a.tiles.push({ x: 10, y: 10 });
+  next.players.a.gold -= 12;
+
+  expect(kinds(start, next)).toEqual(['NON_ADJACENT_CLAIM']);
+});
+
+test('flags constructs on foreign tiles and unearned rate increases', () => {
+  const start = richGame();
+  const next = JSON.parse(JSON.stringify(start)) as GameState;
+  next.grid[20][20].construct = { type: ConstructType.GOLD, ownerId: 'a', level: 1, faction: Faction.HUMANS };
+  next.players.a.gold -= 20;
+  next.players.a.unitRate = 50;
+
+  expect(kinds(start, next)).toEqual(['FOREIGN_CONSTRUCT', 'RATE_GAIN']);
+});
+
+test('does not compare against an older state', () => {
+  const start = richGame();
+  const later = advanceTo(start, 10);
+  later.players.a.gold = 10000;
+
+  expect(auditTransition(later, start)).toEqual([]);
+});
@@ -0,0 +1,146 @@
+import { Construct, ConstructType, FACTION_INFO, GameState, TERRAIN_INFO, TICK_MS } from '../types';
+import { getAbilityState, getLowestModifier } from './factions';
+import { getAllyIds, getConstructCost, getConstructOutput, getConversionCost, isInBounds, isSupplied, NEIGHBOR_OFFSETS, scaleCost } from './rules';
+
+export type AuditViolationKind = 'RESOURCE_GAIN' | 'RATE_GAIN' | 'NON_ADJACENT_CLAIM' | 'FOREIGN_CONSTRUCT';
+
+export interface AuditViolation {
+  playerId: string;
+  kind: AuditViolationKind;
+  detail: string;
+}
+
+// Gold and units accrue as floats, so allow for rounding
+const EPSILON = 1e-6;
+
+// Claiming never costs less than this, however small the territory. Attacks can win
+// without losing a unit, so there's no such floor for units.
+const MIN_CLAIM_GOLD = 10;
+
+const key = (x: number, y: number) => `${x},${y}`;
+
+const format = (value: number) => Math.round(value).toLocaleString();
+
+// Tiles that turned to the player between the two states, and whether the claim could
+// have been reached one step at a time from territory they or their allies already held
+const findClaims = (prev: GameState, next: GameState, playerId: string) => {
+  const alliedTiles = getAllyIds(prev, playerId).flatMap(id => prev.players[id].tiles);
+  const reached = new Set(alliedTiles.map(({ x, y }) => key(x, y)));
+  const claims: { x: number; y: number }[] = [];
+
+  next.grid.forEach(row => row.forEach(({ x, y, ownerId }) => {
+    const before = prev.grid[y]?.[x];
+    if (ownerId !== playerId || !before || before.ownerId === playerId) return;
+    claims.push({ x, y });
+  }));
+
+  // Claims can chain within one update, so keep expanding until nothing new is reached
+  let unreached = claims;
+  let progress = true;
+  while (progress && unreached.length > 0) {
+    const remaining = unreached.filter(({ x, y }) => !NEIGHBOR_OFFSETS.some(({ dx, dy }) => (
+      isInBounds(next.settings, x + dx, y + dy) && reached.has(key(x + dx, y + dy))
+    )));
+    unreached.filter(claim => !remaining.includes(claim)).forEach(({ x, y }) => reached.add(key(x, y)));
+    progress = remaining.length < unreached.length;
+    unreached = remaining;
+  }
+
+  return { claims, unreached };
+};
+
+// Constructs the player built, upgraded, captured, converted or got supply back to,
+// with what each added to their output. Levels a captured construct already had came
+// free with the tile, and constructs on unsupplied tiles have no output.
+const findConstructGains = (prev: GameState, next: GameState, playerId: string) =>
+  next.grid.flat().flatMap(tile => {
+    const { x, y, construct } = tile;
+    if (construct?.ownerId !== playerId) return [];
+
+    const { faction } = next.players[playerId];
+    const before = prev.grid[y]?.[x]?.construct;
+    const kept = before && before.type === construct.type ? before : null;
+    const captured = kept !== null && kept.ownerId !== playerId;
+    const converted = kept !== null && kept.faction !== construct.faction;
+    const fromLevel = kept?.level ?? 0;
+    const resupplied = !isSupplied(prev, x, y) && isSupplied(next, x, y);
+    if (construct.level <= fromLevel && !captured && !converted && !resupplied) return [];
+
+    const output = (state: GameState, built: Construct) =>
+      isSupplied(state, x, y) ? getConstructOutput(built, faction) : 0;
+    const outputBefore = kept && !captured ? output(prev, kept) : 0;
+    return [{
+      tile,
+      type: construct.type,
+      fromLevel,
+      toLevel: construct.level,
+      converted,
+      outputGain: output(next, construct) - outputBefore
+    }];
+  });
+
+// Compare two states from the host and report anything the rules could not have
+// produced in the time between them. Only ever called with states from the same game.
+export const auditTransition = (prev: GameState, next: GameState): AuditViolation[] => {
+  // An older state (e.g. from a new host that was behind) can't be compared
+  if (next.tick < prev.tick) return [];
+
+  const seconds = (next.tick - prev.tick) * TICK_MS / 1000;
+  const violations: AuditViolation[] = [];
+
+  Object.values(next.players).forEach(player => {
+    const before = prev.players[player.id];
+    if (!before) return;
+
+    const report = (kind: AuditViolationKind, detail: string) =>
+      violations.push({ playerId: player.id, kind, detail: `${player.name} ${detail}` });
+
+    const { claims, unreached } = findClaims(prev, next, player.id);
+    const constructs = findConstructGains(prev, next, player.id);
+
+    unreached.forEach(({ x, y }) => report('NON_ADJACENT_CLAIM', `claimed (${x}, ${y}) away from their territory`));
+
+    constructs
+      .filter(({ tile }) => tile.ownerId !== player.id)
+      .forEach(({ tile: { x, y } }) => report('FOREIGN_CONSTRUCT', `built on (${x}, ${y}), which they don't own`));
+
+    // Rates only go up through constructs (built, upgraded, captured, converted or
+    // resupplied) or by claiming gold-rich terrain
+    const { ability } = FACTION_INFO[player.faction];
+    const built = (type: ConstructType) => constructs
+      .filter(construct => construct.type === type)
+      .reduce((total, { outputGain }) => total + outputGain, 0);
+    const terrainGoldRate = claims.reduce((total, { x, y }) => total + TERRAIN_INFO[next.grid[y][x].terrain].goldRate, 0);
+    if (player.goldRate - before.goldRate > built(ConstructType.GOLD) + terrainGoldRate + EPSILON) {
+      report('RATE_GAIN', `raised their gold rate from ${before.goldRate} to ${player.goldRate}`);
+    }
+    if (player.unitRate - before.unitRate > built(ConstructType.UNIT) + EPSILON) {
+      report('RATE_GAIN', `raised their unit rate from ${before.unitRate} to ${player.unitRate}`);
+    }
+
+    // The most they could have now: everything they earned, plus whatever their ability
+    // granted, minus the least they spent
+    const { settings } = next;
+    const usedAbility = getAbilityState(next, player.id).readyAtTick !== getAbilityState(prev, player.id).readyAtTick;
+    const granted = usedAbility ? ability.grant : { gold: 0, units: 0 };
+
+    const claimGoldFactor = settings.claimCostMultiplier * getLowestModifier(player.faction, 'claimGoldCost');
+    const levelCost = (type: ConstructType, level: number) => getConstructCost(type, settings, player.faction, level) ?? 0;
+    const goldSpent = claims.length * scaleCost(MIN_CLAIM_GOLD, claimGoldFactor) +
+      constructs.reduce((total, { tile, type, fromLevel, toLevel, converted }) => {
+        for (let level = fromLevel + 1; level <= toLevel; level++) total += levelCost(type, level);
+        return total + (converted && tile.construct ? getConversionCost(tile.construct, settings, player.faction) : 0);
+      }, 0);
+    const maxGold = before.gold + granted.gold + Math.max(before.goldRate, player.goldRate) * seconds - goldSpent;
+    if (player.gold > maxGold + EPSILON) {
+      report('RESOURCE_GAIN', `has ${format(player.gold)} gold but could have at most ${format(Math.max(maxGold, 0))}`);
+    }
+
+    const maxUnits = before.units + granted.units + Math.max(before.unitRate, player.unitRate) * seconds;
+    if (player.units > maxUnits + EPSILON) {
+      report('RESOURCE_GAIN', `has ${format(player.units)} units but could have at most ${format(Math.max(maxUnits, 0))}`);
+    }
+  });
+
+  return violations;
+};
@@ -0,0 +1,110 @@
+import { ConstructType, Faction, GameState } from '../types';
+import { getBattleOdds } from './combat';
+import { applyAction } from './engine';
+import { act, onPlains, startGame } from './testFixtures';
+
+// a holds (3, 3) and (4, 3); b holds the tile next to them at (5, 3), on plain terrain
+const frontline = (): GameState => {
+  const state = onPlains(startGame({ a: { gold: 100, units: 100 }, b: { gold: 100, units: 100 } }));
+  state.players.a.tiles.push({ x: 4, y: 3 });
+  state.grid[3][4].ownerId = 'a';
+  state.players.b.tiles.push({ x: 5, y: 3 });
+  state.grid[3][5].ownerId = 'b';
+  return state;
+};
+
+const attack = (state: GameState, units: number, x = 5, y = 3) => act(state, { type: 'ATTACK_TILE', x, y, units }, 'a');
+
+test('attack grows with committed units and support, defense with the garrison', () => {
+  const state = frontline();
+  const odds = getBattleOdds(state, 'a', 5, 3, 10);
+  expect(odds.attack).toBe(10);
+  expect(odds.garrison).toBe(50); // b's 100 units over two tiles
+  expect(odds.defense).toBe(55);
+  expect(getBattleOdds(state, 'a', 5, 3, 100).chance).toBeGreaterThan(odds.chance);
+
+  // A second tile of a's next to the target adds support
+  state.players.a.tiles.push({ x: 5, y: 2 });
+  state.grid[2][5].ownerId = 'a';
+  expect(getBattleOdds(state, 'a', 5, 3, 10).attack).toBe(12.5);
+});
+
+test('the same attack on the same state always ends the same way', () => {
+  const state = frontline();
+  expect(attack(state, 40)).toEqual(attack(state, 40));
+});
+
+test('a failed attack costs every unit committed and leaves the tile', () => {
+  const state = frontline();
+  const next = attack(state, 1);
+
+  expect(next.battles).toHaveLength(1);
+  expect(next.battles[0]).toMatchObject({ attackerId: 'a', defenderId: 'b', captured: false, attackerLosses: 1 });
+  expect(next.players.a.units).toBe(99);
+  expect(next.players.a.gold).toBe(100);
+  expect(next.grid[3][5].ownerId).toBe('b');
+});
+
+test('a successful attack takes the tile, pays the claim and kills its garrison', () => {
+  const state = frontline();
+  state.players.b.units = 2; // a garrison of 1 on each tile
+  const next = attack(state, 100);
+  const [report] = next.battles;
+
+  expect(report.captured).toBe(true);
+  expect(next.grid[3][5].ownerId).toBe('a');
+  expect(next.players.b.tiles).toEqual([{ x: 20, y: 20 }]);
+  expect(next.players.a.units).toBe(100 - report.attackerLosses);
+  expect(report.attackerLosses).toBe(6); // 100 × 6 / 106
+  expect(next.players.b.units).toBe(1);
+  expect(next.players.a.gold).toBe(100 - 14);
+});
+
+test('attacks are rejected with a reason', () => {
+  const state = frontline();
+  const tryAttack = (x: number, y: number, units: number) => applyAction(state, { type: 'ATTACK_TILE', x, y, units }, 'a');
+
+  expect(tryAttack(6, 6, 10)).toEqual({ ok: false, reason: 'NOT_ENEMY' });
+  expect(tryAttack(20, 20, 10)).toEqual({ ok: false, reason: 'NOT_ADJACENT' });
+  expect(tryAttack(5, 3, 0)).toEqual({ ok: false, reason: 'NO_UNITS_COMMITTED' });
+  expect(tryAttack(5, 3, 500)).toEqual({ ok: false, reason: 'INSUFFICIENT_UNITS' });
+  expect(applyAction(state, { type: 'CLAIM_TILE', x: 5, y: 3 }, 'a')).toEqual({ ok: false, reason: 'ENEMY_OWNED' });
+});
+
+// b, playing Robots, puts a gold construct on the tile a is about to take
+const withRobotMine = (state: GameState): GameState => {
+  state.players.b.faction = Faction.ROBOTS;
+  state.players.b.units = 2;
+  const result = applyAction(state, { type: 'BUILD_CONSTRUCT', x: 5, y: 3, constructType: ConstructType.GOLD }, 'b');
+  if (!result.ok) throw new Error(result.reason);
+  return result.state;
+};
+
+test('a captured construct changes hands and works at half output until converted', () => {
+  const state = withRobotMine(frontline());
+  const next = attack(state, 100);
+
+  expect(next.grid[3][5].construct).toMatchObject({ ownerId: 'a', faction: Faction.ROBOTS, level: 1 });
+  expect(next.players.b.goldRate).toBe(state.players.b.goldRate - 1);
+  expect(next.players.a.goldRate).toBe(state.players.a.goldRate + 0.5);
+
+  const converted = applyAction(next, { type: 'CONVERT_CONSTRUCT', x: 5, y: 3 }, 'a');
+  if (!converted.ok) throw new Error(converted.reason);
+  expect(converted.state.grid[3][5].construct?.faction).toBe(Faction.HUMANS);
+  expect(converted.state.players.a.goldRate).toBe(next.players.a.goldRate + 1); // a Farm's 1.5 instead of 0.5
+  expect(converted.state.players.a.gold).toBe(next.players.a.gold - 8); // half of a 15 gold Farm
+
+  expect(applyAction(converted.state, { type: 'CONVERT_CONSTRUCT', x: 5, y: 3 }, 'a'))
+    .toEqual({ ok: false, reason: 'ALREADY_CONVERTED' });
+});
+
+test('captured constructs can be set to be destroyed instead', () => {
+  const state = withRobotMine(frontline());
+  state.settings = { ...state.settings, constructCapture: 'destroy' };
+  const next = attack(state, 100);
+
+  expect(next.grid[3][5].ownerId).toBe('a');
+  expect(next.grid[3][5].construct).toBeNull();
+  expect(next.players.b.goldRate).toBe(state.players.b.goldRate - 1);
+  expect(next.players.a.goldRate).toBe(state.players.a.goldRate);
+});
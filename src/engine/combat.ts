@@ -0,0 +1,99 @@
+import { BATTLE_LOG_SIZE, BattleReport, GameState } from '../types';
+import { getClaimModifiers } from './factions';
+import { createRandom } from './random';
+import { areAllies, getTileDefense, isInBounds, isSupplied, NEIGHBOR_OFFSETS } from './rules';
+
+// Every tile defends with at least this much, however bare
+const BASE_DEFENSE = 5;
+
+// Tiles cut off from their owner's capital defend at this share of their strength
+const UNSUPPLIED_DEFENSE = 0.5;
+
+// Each allied tile bordering the target past the first adds this share to the attack
+const SUPPORT_BONUS = 0.25;
+
+export interface BattleOdds {
+  attack: number;
+  defense: number;
+  chance: number;   // 0 to 1
+  garrison: number; // defender units holding the tile
+}
+
+// A player's units are spread evenly across their territory
+const getGarrison = (state: GameState, playerId: string): number => {
+  const player = state.players[playerId];
+  return player && player.tiles.length > 0 ? Math.max(0, player.units) / player.tiles.length : 0;
+};
+
+// Tiles held by the attacker or their allies around the target
+export const countSupport = (state: GameState, attackerId: string, x: number, y: number): number =>
+  NEIGHBOR_OFFSETS.filter(({ dx, dy }) => {
+    if (!isInBounds(state.settings, x + dx, y + dy)) return false;
+    const ownerId = state.grid[y + dy][x + dx].ownerId;
+    return ownerId !== null && areAllies(state, attackerId, ownerId);
+  }).length;
+
+// How an attack with the given units would go. Attack grows with the units committed
+// and the support around the target; defense with the tile's defense, the defender's
+// garrison and their faction, and drops when the tile is unsupplied. The chance
+// favours whoever is stronger, steeply.
+export const getBattleOdds = (state: GameState, attackerId: string, x: number, y: number, committed: number): BattleOdds => {
+  const tile = state.grid[y][x];
+  const support = Math.max(1, countSupport(state, attackerId, x, y));
+  const attack = committed * (1 + SUPPORT_BONUS * (support - 1)) * getClaimModifiers(state, attackerId).attack;
+
+  const garrison = tile.ownerId ? getGarrison(state, tile.ownerId) : 0;
+  const defenseModifier = tile.ownerId ? getClaimModifiers(state, tile.ownerId).defense : 1;
+  const supplyModifier = isSupplied(state, x, y) ? 1 : UNSUPPLIED_DEFENSE;
+  const defense = (BASE_DEFENSE + getTileDefense(state, tile) + garrison) *
+    defenseModifier * supplyModifier * state.settings.claimCostMultiplier;
+
+  return { attack, defense, chance: attack ** 2 / (attack ** 2 + defense ** 2), garrison };
+};
+
+// The roll comes from the state the attack is applied to, so every peer replaying
+// the same attack on the same state sees the same result
+const battleSeed = (state: GameState, x: number, y: number): number =>
+  (state.settings.mapSeed ^
+    Math.imul(state.revision + 1, 0x9e3779b1) ^
+    Math.imul(y * state.settings.gridSize + x + 1, 0x85ebca6b)) >>> 0;
+
+// Fight for an enemy tile and log the result. A failed attack loses every unit it
+// committed; a successful one loses a share matching how hard the defense was. The
+// defender loses the tile's garrison when it falls, and part of it when it holds.
+// Moving the tile itself is up to the caller.
+export const resolveBattleInPlace = (
+  state: GameState,
+  attackerId: string,
+  x: number,
+  y: number,
+  committed: number
+): BattleReport => {
+  const defenderId = state.grid[y][x].ownerId as string;
+  const { attack, defense, chance, garrison } = getBattleOdds(state, attackerId, x, y, committed);
+  const captured = createRandom(battleSeed(state, x, y))() < chance;
+
+  const attacker = state.players[attackerId];
+  const defender = state.players[defenderId];
+  const attackerLosses = captured ? Math.round(committed * defense / (attack + defense)) : committed;
+  const defenderLosses = Math.min(Math.max(0, defender.units), captured ? garrison : garrison * attack / (attack + defense));
+  attacker.units -= attackerLosses;
+  defender.units -= defenderLosses;
+
+  const report: BattleReport = {
+    tick: state.tick,
+    attackerId,
+    defenderId,
+    x,
+    y,
+    committed,
+    attack,
+    defense,
+    chance,
+    captured,
+    attackerLosses,
+    defenderLosses
+  };
+  state.battles = [...state.battles, report].slice(-BATTLE_LOG_SIZE);
+  return report;
+};
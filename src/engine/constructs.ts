@@ -0,0 +1,23 @@
+import { ConstructType, GameState } from '../types';
+import { getConstructOutput, isSupplied } from './rules';
+
+// Give a construct's owner the rate or defense it provides as it stands, or take it
+// away with sign -1. Anything that changes a construct takes its effect away first.
+// Constructs on unsupplied tiles give nothing.
+export const applyConstructEffectInPlace = (state: GameState, x: number, y: number, sign: 1 | -1) => {
+  const tile = state.grid[y][x];
+  if (!tile.construct || !isSupplied(state, x, y)) return;
+
+  const { type, ownerId } = tile.construct;
+  const owner = ownerId ? state.players[ownerId] : undefined;
+  if (!owner) return;
+
+  const output = getConstructOutput(tile.construct, owner.faction) * sign;
+  if (type === ConstructType.GOLD) {
+    owner.goldRate += output;
+  } else if (type === ConstructType.UNIT) {
+    owner.unitRate += output;
+  } else if (type === ConstructType.DEFENSE) {
+    tile.defenseBonus = sign > 0 ? output : 0;
+  }
+};
@@ -0,0 +1,176 @@
+import { ConstructType, DEFAULT_MATCH_SETTINGS, Faction, GameState, MatchSettings, Terrain, TICK_MS } from '../types';
+import { advanceTo, applyAction, initializeGameState, tick } from './engine';
+import { getBattleOdds } from './combat';
+import { getTileDefense } from './rules';
+import { makePlayer, startGame } from './testFixtures';
+
+const DURATION_TICKS = DEFAULT_MATCH_SETTINGS.durationMs / TICK_MS;
+
+const humansVsAliens = (): GameState => startGame({ a: {}, b: { faction: Faction.ALIENS } });
+
+const withGold = (state: GameState, playerId: string, gold: number, units = 0): GameState => ({
+  ...state,
+  players: { ...state.players, [playerId]: { ...state.players[playerId], gold, units } }
+});
+
+test('initializeGameState places players without mutating the lobby', () => {
+  const lobbyPlayers = { a: makePlayer('a'), b: makePlayer('b', { faction: Faction.ALIENS }) };
+  const state = initializeGameState(lobbyPlayers, 1000);
+
+  expect(state.players.a.tiles).toEqual([{ x: 3, y: 3 }]);
+  expect(state.grid[3][3].ownerId).toBe('a');
+  expect(state.players.b.unitRate).toBe(1);
+  expect(state.gameEndTime).toBe(1000 + DEFAULT_MATCH_SETTINGS.durationMs);
+  expect(lobbyPlayers.a.tiles).toEqual([]);
+});
+
+test('claiming an adjacent tile spends gold and grows territory', () => {
+  const state = withGold(humansVsAliens(), 'a', 15);
+  const result = applyAction(state, { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a');
+
+  expect(result.ok).toBe(true);
+  if (!result.ok) return;
+  expect(result.state.players.a.gold).toBe(3);
+  expect(result.state.players.a.tiles).toHaveLength(2);
+  expect(result.state.grid[3][4].ownerId).toBe('a');
+  expect(state.grid[3][4].ownerId).toBeNull();
+});
+
+test('claims are rejected with a reason', () => {
+  const state = withGold(humansVsAliens(), 'a', 15);
+
+  expect(applyAction(state, { type: 'CLAIM_TILE', x: 10, y: 10 }, 'a')).toEqual({ ok: false, reason: 'NOT_ADJACENT' });
+  expect(applyAction(humansVsAliens(), { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a')).toEqual({ ok: false, reason: 'INSUFFICIENT_GOLD' });
+  expect(applyAction(state, { type: 'CLAIM_TILE', x: -1, y: 3 }, 'a')).toEqual({ ok: false, reason: 'OUT_OF_BOUNDS' });
+  expect(applyAction(state, { type: 'CLAIM_TILE', x: 0.5, y: 3 }, 'a')).toEqual({ ok: false, reason: 'OUT_OF_BOUNDS' });
+  expect(applyAction(state, { type: 'CLAIM_TILE', x: 4, y: 3 }, 'ghost')).toEqual({ ok: false, reason: 'UNKNOWN_PLAYER' });
+});
+
+test('building and demolishing constructs adjusts rates', () => {
+  const state = withGold(humansVsAliens(), 'a', 30);
+  const built = applyAction(state, { type: 'BUILD_CONSTRUCT', x: 3, y: 3, constructType: ConstructType.GOLD }, 'a');
+
+  expect(built.ok).toBe(true);
+  if (!built.ok) return;
+  // Humans build for a quarter less, and their Farms make 1.5 gold/s
+  expect(built.state.players.a.goldRate).toBe(2.5);
+  expect(built.state.players.a.gold).toBe(15);
+  expect(applyAction(built.state, { type: 'BUILD_CONSTRUCT', x: 3, y: 3, constructType: ConstructType.UNIT }, 'a'))
+    .toEqual({ ok: false, reason: 'TILE_OCCUPIED' });
+
+  const demolished = applyAction(built.state, { type: 'DEMOLISH_CONSTRUCT', x: 3, y: 3 }, 'a');
+  expect(demolished.ok && demolished.state.players.a.goldRate).toBe(1);
+});
+
+test('upgrading a construct raises its output and cost', () => {
+  const state = withGold(humansVsAliens(), 'a', 200);
+  const built = applyAction(state, { type: 'BUILD_CONSTRUCT', x: 3, y: 3, constructType: ConstructType.UNIT }, 'a');
+  if (!built.ok) throw new Error(built.reason);
+
+  const upgraded = applyAction(built.state, { type: 'UPGRADE_CONSTRUCT', x: 3, y: 3 }, 'a');
+  if (!upgraded.ok) throw new Error(upgraded.reason);
+  expect(upgraded.state.grid[3][3].construct?.level).toBe(2);
+  expect(upgraded.state.players.a.unitRate).toBe(2);
+  expect(upgraded.state.players.a.gold).toBe(200 - 11 - 23); // 15 and 30, less the Humans' discount
+
+  const maxed = applyAction(upgraded.state, { type: 'UPGRADE_CONSTRUCT', x: 3, y: 3 }, 'a');
+  if (!maxed.ok) throw new Error(maxed.reason);
+  expect(applyAction(maxed.state, { type: 'UPGRADE_CONSTRUCT', x: 3, y: 3 }, 'a')).toEqual({ ok: false, reason: 'MAX_LEVEL' });
+  expect(applyAction(maxed.state, { type: 'UPGRADE_CONSTRUCT', x: 4, y: 3 }, 'a')).toEqual({ ok: false, reason: 'NOT_OWNER' });
+
+  const demolished = applyAction(maxed.state, { type: 'DEMOLISH_CONSTRUCT', x: 3, y: 3 }, 'a');
+  expect(demolished.ok && demolished.state.players.a.unitRate).toBe(0);
+});
+
+test('upgraded defense constructs protect neighbouring tiles', () => {
+  let state = withGold(humansVsAliens(), 'a', 500);
+  const apply = (action: Parameters<typeof applyAction>[1]) => {
+    const result = applyAction(state, action, 'a');
+    if (!result.ok) throw new Error(result.reason);
+    state = result.state;
+  };
+  apply({ type: 'CLAIM_TILE', x: 4, y: 3 });
+  apply({ type: 'BUILD_CONSTRUCT', x: 3, y: 3, constructType: ConstructType.DEFENSE });
+  expect(getTileDefense(state, state.grid[3][3])).toBe(10);
+  expect(getTileDefense(state, state.grid[3][4])).toBe(0);
+
+  apply({ type: 'UPGRADE_CONSTRUCT', x: 3, y: 3 });
+  expect(getTileDefense(state, state.grid[3][3])).toBe(15);
+  expect(getTileDefense(state, state.grid[3][4])).toBe(5);
+  expect(getBattleOdds(state, 'b', 4, 3, 1).defense).toBe(10);
+});
+
+test('tick accrues resources and ends the game on timeout', () => {
+  const state = advanceTo(humansVsAliens(), 10);
+  expect(state.tick).toBe(10);
+  expect(state.players.a.gold).toBeCloseTo(1);
+  expect(state.players.b.units).toBeCloseTo(1);
+  expect(tick(state)).toEqual(advanceTo(state, 11));
+
+  const claimed = applyAction(withGold(state, 'a', 20), { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a');
+  if (!claimed.ok) throw new Error(claimed.reason);
+
+  const ended = advanceTo(claimed.state, DURATION_TICKS + 50);
+  expect(ended.tick).toBe(DURATION_TICKS);
+  expect(ended.gameOver).toBe(true);
+  expect(ended.winner).toBe('a');
+});
+
+test('match settings shape the map, starting gold, costs and time limit', () => {
+  const settings: MatchSettings = {
+    ...DEFAULT_MATCH_SETTINGS,
+    gridSize: 16,
+    startingGold: 100,
+    claimCostMultiplier: 2,
+    constructCostMultiplier: 0.5,
+    winCondition: 'elimination'
+  };
+  const state = startGame(undefined, 'freeze', settings);
+
+  expect(state.grid).toHaveLength(16);
+  expect(state.players.b.tiles).toEqual([{ x: 12, y: 12 }]);
+  expect(state.players.a.gold).toBe(100);
+  expect(state.gameEndTime).toBeNull();
+
+  const claimed = applyAction(state, { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a');
+  if (!claimed.ok) throw new Error(claimed.reason);
+  expect(claimed.state.players.a.gold).toBe(100 - 24); // (10 + 2 for the one tile held) doubled
+
+  const built = applyAction(claimed.state, { type: 'BUILD_CONSTRUCT', x: 4, y: 3, constructType: ConstructType.GOLD }, 'a');
+  if (!built.ok) throw new Error(built.reason);
+  expect(built.state.players.a.gold).toBe(claimed.state.players.a.gold - 8); // 20 halved, less the Humans' discount
+
+  expect(applyAction(state, { type: 'CLAIM_TILE', x: 16, y: 3 }, 'a')).toEqual({ ok: false, reason: 'OUT_OF_BOUNDS' });
+  expect(advanceTo(state, DURATION_TICKS + 10).gameOver).toBe(false);
+});
+
+test('in team matches allies claim from each other\'s borders but cannot take each other\'s tiles', () => {
+  const settings: MatchSettings = { ...DEFAULT_MATCH_SETTINGS, teamMode: true };
+  const players = { a: { team: 1 }, b: { team: 2 }, c: { team: 1 } };
+  const state = withGold(startGame(players, 'freeze', settings), 'a', 100, 100);
+  const { x, y } = state.players.c.tiles[0];
+
+  expect(applyAction(state, { type: 'CLAIM_TILE', x, y }, 'a')).toEqual({ ok: false, reason: 'ALLY_OWNED' });
+
+  const fromAlly = applyAction(state, { type: 'CLAIM_TILE', x: x + 1, y }, 'a');
+  expect(fromAlly.ok).toBe(true);
+});
+
+test('terrain changes what a claim costs and what the tile is worth', () => {
+  const state = withGold(humansVsAliens(), 'a', 100);
+  const withTerrain = (x: number, y: number, terrain: Terrain): GameState => ({
+    ...state,
+    grid: state.grid.map(row => row.map(tile => (tile.x === x && tile.y === y ? { ...tile, terrain } : tile)))
+  });
+
+  expect(applyAction(withTerrain(4, 3, 'mountain'), { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a'))
+    .toEqual({ ok: false, reason: 'IMPASSABLE' });
+
+  const river = applyAction(withTerrain(4, 3, 'river'), { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a');
+  if (!river.ok) throw new Error(river.reason);
+  expect(river.state.players.a.gold).toBe(100 - 24); // (10 + 2 for the one tile held) doubled
+
+  const gold = applyAction(withTerrain(4, 3, 'gold'), { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a');
+  if (!gold.ok) throw new Error(gold.reason);
+  expect(gold.state.players.a.goldRate).toBe(1.5);
+});
@@ -0,0 +1,371 @@
+import {
+  ActionResult,
+  ConstructType,
+  DEFAULT_MATCH_SETTINGS,
+  DisconnectPolicy,
+  FACTION_INFO,
+  GameAction,
+  GameState,
+  MatchSettings,
+  MAX_CONSTRUCT_LEVEL,
+  Player,
+  RejectionReason,
+  TEAM_COUNT,
+  TERRAIN_INFO,
+  TICK_MS,
+  Tile
+} from '../types';
+import {
+  getClaimGoldCost,
+  getConstructCost,
+  getConversionCost,
+  areAllies,
+  isAdjacentToAllies,
+  isInBounds
+} from './rules';
+import { applyConstructEffectInPlace } from './constructs';
+import { decayUnsuppliedInPlace, updateSupplyInPlace } from './supply';
+import { getDurationTicks } from './settings';
+import { getStartingPositions } from './startingPositions';
+import { generateTerrain } from './mapGenerator';
+import { getAbilityCooldownTicks, triggerAbilityInPlace } from './factions';
+import { resolveBattleInPlace } from './combat';
+import { settleMatchInPlace, updateHillInPlace } from './victory';
+import { canAccrue, chooseBotAction, expireGracePeriodsInPlace, getBotPlayerIds, BOT_ACTION_TICKS } from './presence';
+
+const cloneState = (state: GameState): GameState =>
+  JSON.parse(JSON.stringify(state)) as GameState;
+
+const reject = (reason: RejectionReason): ActionResult => ({ ok: false, reason });
+
+// Build the starting state for a match. Players are copied, never mutated.
+export const initializeGameState = (
+  players: Record<string, Player>,
+  startTime: number,
+  disconnectPolicy: DisconnectPolicy = 'freeze',
+  settings: MatchSettings = DEFAULT_MATCH_SETTINGS
+): GameState => {
+  const { gridSize } = settings;
+  const gamePlayers = JSON.parse(JSON.stringify(players)) as Record<string, Player>;
+
+  // Assign starting positions for each player (equidistant). Teammates start side by side.
+  const playerIds = Object.keys(gamePlayers);
+  if (settings.teamMode) {
+    const teamOrder = (id: string) => gamePlayers[id].team ?? TEAM_COUNT + 1;
+    playerIds.sort((a, b) => teamOrder(a) - teamOrder(b));
+  }
+  const startingPositions = getStartingPositions(gridSize, playerIds.length);
+
+  const terrain = generateTerrain(gridSize, settings.mapSeed, startingPositions);
+  const grid: Tile[][] = Array(gridSize).fill(null).map((_, y) =>
+    Array(gridSize).fill(null).map((_, x) => ({
+      x,
+      y,
+      terrain: terrain[y][x],
+      ownerId: null,
+      color: null,
+      construct: null,
+      defenseBonus: 0
+    }))
+  );
+
+  playerIds.forEach((playerId, index) => {
+    const pos = startingPositions[index];
+    grid[pos.y][pos.x].ownerId = playerId;
+    grid[pos.y][pos.x].color = gamePlayers[playerId].color;
+
+    gamePlayers[playerId].tiles = [{ x: pos.x, y: pos.y }];
+    gamePlayers[playerId].gold += settings.startingGold;
+    gamePlayers[playerId].unitRate += FACTION_INFO[gamePlayers[playerId].faction].passives.startingUnitRate;
+  });
+
+  return {
+    gameStarted: true,
+    currentTurn: playerIds[0], // First player starts (doesn't matter for real-time game)
+    grid,
+    players: gamePlayers,
+    gameEndTime: settings.winCondition === 'elimination' ? null : startTime + settings.durationMs,
+    startTime,
+    tick: 0,
+    revision: 0,
+    lastIntentSeq: {},
+    presence: {},
+    disconnectPolicy,
+    settings: { ...settings },
+    hill: settings.winCondition === 'hill' ? { holderId: null, sinceTick: 0 } : null,
+    abilities: Object.fromEntries(playerIds.map(id => [id, { readyAtTick: 0, activeUntilTick: 0 }])),
+    battles: [],
+    capitals: Object.fromEntries(playerIds.map((id, index) => [id, { ...startingPositions[index] }])),
+    unsupplied: {},
+    gameOver: false,
+    winner: null,
+    outcome: null
+  };
+};
+
+// Hand a tile to a new owner, along with whatever its terrain earns. A construct on it
+// stops working for the previous owner, then is destroyed or changes hands as the
+// match settings say. Both sides' supply lines are rechecked afterwards.
+const transferTileInPlace = (state: GameState, x: number, y: number, newOwnerId: string) => {
+  const tile = state.grid[y][x];
+  const newOwner = state.players[newOwnerId];
+  const terrainGoldRate = TERRAIN_INFO[tile.terrain].goldRate;
+
+  const previousOwnerId = tile.ownerId;
+  const previousOwner = previousOwnerId !== null ? state.players[previousOwnerId] : undefined;
+  if (previousOwner) {
+    previousOwner.tiles = previousOwner.tiles.filter(t => !(t.x === x && t.y === y));
+    previousOwner.goldRate -= terrainGoldRate;
+  }
+  newOwner.goldRate += terrainGoldRate;
+
+  applyConstructEffectInPlace(state, x, y, -1);
+  delete state.unsupplied[`${x},${y}`];
+  if (tile.construct) {
+    if (state.settings.constructCapture === 'destroy') {
+      tile.construct = null;
+    } else {
+      tile.construct.ownerId = newOwnerId;
+      applyConstructEffectInPlace(state, x, y, 1);
+    }
+  }
+
+  tile.ownerId = newOwnerId;
+  tile.color = newOwner.color;
+  tile.claimedAtRevision = state.revision + 1;
+  newOwner.tiles.push({ x, y });
+
+  updateSupplyInPlace(state, previousOwnerId !== null ? [previousOwnerId, newOwnerId] : [newOwnerId]);
+};
+
+// Claim a neutral tile. Enemy tiles have to be attacked.
+const claimTile = (state: GameState, x: number, y: number, actorId: string): ActionResult => {
+  const player = state.players[actorId];
+  const tile = state.grid[y][x];
+
+  if (tile.ownerId === actorId) return reject('ALREADY_OWNED');
+  if (!TERRAIN_INFO[tile.terrain].claimable) return reject('IMPASSABLE');
+  if (tile.ownerId !== null && areAllies(state, actorId, tile.ownerId)) return reject('ALLY_OWNED');
+  if (tile.ownerId !== null) return reject('ENEMY_OWNED');
+  if (!isAdjacentToAllies(state, actorId, x, y)) return reject('NOT_ADJACENT');
+
+  const goldCost = getClaimGoldCost(state, actorId, tile);
+  if (player.gold < goldCost) return reject('INSUFFICIENT_GOLD');
+
+  const next = cloneState(state);
+  next.players[actorId].gold -= goldCost;
+  transferTileInPlace(next, x, y, actorId);
+
+  return { ok: true, state: next };
+};
+
+// Send units against an enemy tile. The gold a claim would cost is only paid if the
+// tile falls; the units are at risk either way.
+const attackTile = (state: GameState, x: number, y: number, units: number, actorId: string): ActionResult => {
+  const player = state.players[actorId];
+  const tile = state.grid[y][x];
+
+  if (tile.ownerId === actorId) return reject('ALREADY_OWNED');
+  if (tile.ownerId === null) return reject('NOT_ENEMY');
+  if (areAllies(state, actorId, tile.ownerId)) return reject('ALLY_OWNED');
+  if (!isAdjacentToAllies(state, actorId, x, y)) return reject('NOT_ADJACENT');
+  if (!(units >= 1)) return reject('NO_UNITS_COMMITTED');
+  if (player.units < units) return reject('INSUFFICIENT_UNITS');
+
+  const goldCost = getClaimGoldCost(state, actorId, tile);
+  if (player.gold < goldCost) return reject('INSUFFICIENT_GOLD');
+
+  const next = cloneState(state);
+  const { captured } = resolveBattleInPlace(next, actorId, x, y, units);
+  if (captured) {
+    next.players[actorId].gold -= goldCost;
+    transferTileInPlace(next, x, y, actorId);
+  }
+
+  return { ok: true, state: next };
+};
+
+const buildConstruct = (
+  state: GameState,
+  x: number,
+  y: number,
+  constructType: ConstructType,
+  actorId: string
+): ActionResult => {
+  const tile = state.grid[y][x];
+  const { faction } = state.players[actorId];
+
+  if (tile.ownerId !== actorId) return reject('NOT_OWNER');
+  if (tile.construct !== null) return reject('TILE_OCCUPIED');
+
+  const goldCost = getConstructCost(constructType, state.settings, faction);
+  if (goldCost === null) return reject('INVALID_CONSTRUCT');
+  if (state.players[actorId].gold < goldCost) return reject('INSUFFICIENT_GOLD');
+
+  const next = cloneState(state);
+  next.players[actorId].gold -= goldCost;
+  next.grid[y][x].construct = { type: constructType, ownerId: actorId, level: 1, faction };
+  applyConstructEffectInPlace(next, x, y, 1);
+
+  return { ok: true, state: next };
+};
+
+// Raise a construct one level, swapping its old effect for the new one
+const upgradeConstruct = (state: GameState, x: number, y: number, actorId: string): ActionResult => {
+  const tile = state.grid[y][x];
+  const { faction } = state.players[actorId];
+
+  if (tile.ownerId !== actorId) return reject('NOT_OWNER');
+  if (tile.construct === null) return reject('NO_CONSTRUCT');
+  if (tile.construct.level >= MAX_CONSTRUCT_LEVEL) return reject('MAX_LEVEL');
+
+  const level = tile.construct.level + 1;
+  const goldCost = getConstructCost(tile.construct.type, state.settings, faction, level);
+  if (goldCost === null) return reject('INVALID_CONSTRUCT');
+  if (state.players[actorId].gold < goldCost) return reject('INSUFFICIENT_GOLD');
+
+  const next = cloneState(state);
+  next.players[actorId].gold -= goldCost;
+  applyConstructEffectInPlace(next, x, y, -1);
+  next.grid[y][x].construct!.level = level;
+  applyConstructEffectInPlace(next, x, y, 1);
+
+  return { ok: true, state: next };
+};
+
+// Rebuild a captured construct to the owner's own design, so it works at full output
+const convertConstruct = (state: GameState, x: number, y: number, actorId: string): ActionResult => {
+  const tile = state.grid[y][x];
+  const { faction } = state.players[actorId];
+
+  if (tile.ownerId !== actorId) return reject('NOT_OWNER');
+  if (tile.construct === null) return reject('NO_CONSTRUCT');
+  if (tile.construct.faction === faction) return reject('ALREADY_CONVERTED');
+
+  const goldCost = getConversionCost(tile.construct, state.settings, faction);
+  if (state.players[actorId].gold < goldCost) return reject('INSUFFICIENT_GOLD');
+
+  const next = cloneState(state);
+  next.players[actorId].gold -= goldCost;
+  applyConstructEffectInPlace(next, x, y, -1);
+  next.grid[y][x].construct!.faction = faction;
+  applyConstructEffectInPlace(next, x, y, 1);
+
+  return { ok: true, state: next };
+};
+
+const demolishConstruct = (state: GameState, x: number, y: number, actorId: string): ActionResult => {
+  const tile = state.grid[y][x];
+
+  if (tile.ownerId !== actorId) return reject('NOT_OWNER');
+  if (tile.construct === null) return reject('NO_CONSTRUCT');
+
+  const next = cloneState(state);
+  applyConstructEffectInPlace(next, x, y, -1);
+  next.grid[y][x].construct = null;
+
+  return { ok: true, state: next };
+};
+
+const activateAbility = (state: GameState, actorId: string): ActionResult => {
+  if (getAbilityCooldownTicks(state, actorId) > 0) return reject('ABILITY_COOLDOWN');
+
+  const next = cloneState(state);
+  triggerAbilityInPlace(next, actorId);
+  return { ok: true, state: next };
+};
+
+const dispatchAction = (state: GameState, action: GameAction, actorId: string): ActionResult => {
+  switch (action.type) {
+    case 'CLAIM_TILE':
+      return claimTile(state, action.x, action.y, actorId);
+    case 'ATTACK_TILE':
+      return attackTile(state, action.x, action.y, action.units, actorId);
+    case 'BUILD_CONSTRUCT':
+      return buildConstruct(state, action.x, action.y, action.constructType, actorId);
+    case 'UPGRADE_CONSTRUCT':
+      return upgradeConstruct(state, action.x, action.y, actorId);
+    case 'CONVERT_CONSTRUCT':
+      return convertConstruct(state, action.x, action.y, actorId);
+    case 'DEMOLISH_CONSTRUCT':
+      return demolishConstruct(state, action.x, action.y, actorId);
+    case 'USE_ABILITY':
+      return activateAbility(state, actorId);
+  }
+};
+
+// Apply a player's action to the state. Never mutates the input.
+export const applyAction = (state: GameState, action: GameAction, actorId: string): ActionResult => {
+  if (state.gameOver) return reject('GAME_OVER');
+  if (!state.players[actorId]) return reject('UNKNOWN_PLAYER');
+  if (action.type !== 'USE_ABILITY' && !isInBounds(state.settings, action.x, action.y)) return reject('OUT_OF_BOUNDS');
+
+  const result = dispatchAction(state, action, actorId);
+  if (result.ok) {
+    result.state.revision = state.revision + 1;
+    updateHillInPlace(result.state);
+    settleMatchInPlace(result.state, false);
+  }
+  return result;
+};
+
+const stepInPlace = (state: GameState) => {
+  state.tick += 1;
+
+  const durationTicks = getDurationTicks(state.settings);
+  if (durationTicks !== null && state.tick >= durationTicks) {
+    settleMatchInPlace(state, true);
+    return;
+  }
+
+  expireGracePeriodsInPlace(state);
+  if (state.gameOver) return;
+
+  decayUnsuppliedInPlace(state);
+
+  const seconds = TICK_MS / 1000;
+  Object.values(state.players).forEach(player => {
+    // Skip players with no tiles (they're eliminated)
+    if (player.tiles.length === 0 || !canAccrue(state, player.id)) return;
+
+    player.gold += player.goldRate * seconds;
+    player.units += player.unitRate * seconds;
+  });
+
+  updateHillInPlace(state);
+  settleMatchInPlace(state, false);
+};
+
+// Bots move on a fixed schedule, so they're part of the deterministic simulation
+const runBots = (state: GameState): GameState => {
+  if (state.gameOver || state.tick % BOT_ACTION_TICKS !== 0) return state;
+
+  return getBotPlayerIds(state).reduce((current, botId) => {
+    const action = chooseBotAction(current, botId);
+    const result = action && applyAction(current, action, botId);
+    return result && result.ok ? result.state : current;
+  }, state);
+};
+
+// Advance the simulation by one fixed step: accrue resources, apply disconnect
+// policies, let bots act and end the game on timeout
+export const tick = (state: GameState): GameState => {
+  if (state.gameOver) return state;
+
+  const next = cloneState(state);
+  stepInPlace(next);
+  return runBots(next);
+};
+
+// Run fixed steps until the state reaches targetTick (or the game ends).
+// Every peer that starts from the same state lands on exactly the same result.
+export const advanceTo = (state: GameState, targetTick: number): GameState => {
+  if (state.gameOver || state.tick >= targetTick) return state;
+
+  let next = cloneState(state);
+  while (!next.gameOver && next.tick < targetTick) {
+    stepInPlace(next);
+    next = runBots(next);
+  }
+  return next;
+};
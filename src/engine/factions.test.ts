@@ -0,0 +1,54 @@
+import { Faction, FACTION_INFO, GameState, TICK_MS } from '../types';
+import { advanceTo, applyAction } from './engine';
+import { describePassives, getClaimModifiers } from './factions';
+import { getBattleOdds } from './combat';
+import { getClaimGoldCost } from './rules';
+import { act, onPlains, startGame } from './testFixtures';
+
+// Plain terrain, so only the factions change the costs
+const matchUp = (a: Faction, b: Faction): GameState => onPlains(startGame({ a: { faction: a }, b: { faction: b } }));
+
+const useAbility = (state: GameState, playerId: string): GameState => act(state, { type: 'USE_ABILITY' }, playerId);
+
+test('passives change claim costs and defense', () => {
+  const state = matchUp(Faction.ALIENS, Faction.ROBOTS);
+  const neutral = state.grid[3][4];
+
+  expect(getClaimGoldCost(state, 'a', neutral)).toBe(10); // 12, less the Aliens' 20%
+  expect(getClaimGoldCost(state, 'b', neutral)).toBe(14); // 12, plus the Robots' 20%
+  expect(getBattleOdds(state, 'a', 20, 20, 1).defense).toBe(7.5); // 5, half again for Robot defenses
+  expect(state.players.a.unitRate).toBe(1);
+});
+
+test('an ability runs for its duration, then cools down', () => {
+  const state = matchUp(Faction.ALIENS, Faction.HUMANS);
+  const swarming = useAbility(state, 'a');
+
+  expect(getClaimModifiers(swarming, 'a').claimGoldCost).toBeCloseTo(0.4);
+  expect(applyAction(swarming, { type: 'USE_ABILITY' }, 'a')).toEqual({ ok: false, reason: 'ABILITY_COOLDOWN' });
+
+  const { durationMs, cooldownMs } = FACTION_INFO[Faction.ALIENS].ability;
+  const expired = advanceTo(swarming, durationMs / TICK_MS);
+  expect(getClaimModifiers(expired, 'a').claimGoldCost).toBe(0.8);
+
+  const ready = advanceTo(swarming, cooldownMs / TICK_MS);
+  expect(applyAction(ready, { type: 'USE_ABILITY' }, 'a').ok).toBe(true);
+});
+
+test('Lockdown makes Robot tiles harder to capture and Call to Arms grants units', () => {
+  const state = matchUp(Faction.HUMANS, Faction.ROBOTS);
+
+  const locked = useAbility(state, 'b');
+  expect(getBattleOdds(locked, 'a', 20, 20, 1).defense).toBe(15); // 5 × 1.5 × 2
+
+  const rallied = useAbility(state, 'a');
+  expect(rallied.players.a.units).toBe(20);
+});
+
+test('passives are described in plain language', () => {
+  expect(describePassives(FACTION_INFO[Faction.ALIENS].passives)).toEqual([
+    'Claims cost 20% less gold',
+    'Tiles are 20% easier to capture',
+    'Starts with +1 units/s'
+  ]);
+});
@@ -0,0 +1,66 @@
+import { AbilityState, ClaimModifiers, Faction, FACTION_INFO, FactionPassives, GameState, TICK_MS } from '../types';
+
+const READY: AbilityState = { readyAtTick: 0, activeUntilTick: 0 };
+
+export const getAbilityState = (state: GameState, playerId: string): AbilityState =>
+  state.abilities[playerId] ?? READY;
+
+export const isAbilityActive = (state: GameState, playerId: string): boolean =>
+  state.tick < getAbilityState(state, playerId).activeUntilTick;
+
+// Ticks until the player can use their ability again, 0 when it's ready
+export const getAbilityCooldownTicks = (state: GameState, playerId: string): number =>
+  Math.max(0, getAbilityState(state, playerId).readyAtTick - state.tick);
+
+// The player's claim modifiers right now: their faction's passives, with the
+// ability's on top while it lasts
+export const getClaimModifiers = (state: GameState, playerId: string): ClaimModifiers => {
+  const player = state.players[playerId];
+  if (!player) return { claimGoldCost: 1, attack: 1, defense: 1 };
+
+  const { passives, ability } = FACTION_INFO[player.faction];
+  const active = isAbilityActive(state, playerId) ? ability.modifiers : {};
+  return {
+    claimGoldCost: passives.claimGoldCost * (active.claimGoldCost ?? 1),
+    attack: passives.attack * (active.attack ?? 1),
+    defense: passives.defense * (active.defense ?? 1)
+  };
+};
+
+// The lowest a modifier can go for a faction, ability included. Used by the audit,
+// which can't tell from two states whether the ability was active at the time.
+export const getLowestModifier = (faction: Faction, key: keyof ClaimModifiers): number => {
+  const { passives, ability } = FACTION_INFO[faction];
+  return passives[key] * Math.min(1, ability.modifiers[key] ?? 1);
+};
+
+// Use the player's ability, starting its cooldown and paying out any grant
+export const triggerAbilityInPlace = (state: GameState, playerId: string) => {
+  const player = state.players[playerId];
+  const { ability } = FACTION_INFO[player.faction];
+
+  state.abilities[playerId] = {
+    readyAtTick: state.tick + Math.round(ability.cooldownMs / TICK_MS),
+    activeUntilTick: state.tick + Math.round(ability.durationMs / TICK_MS)
+  };
+  player.gold += ability.grant.gold;
+  player.units += ability.grant.units;
+};
+
+// Plain-language lines for a faction's passives, skipping the ones that change nothing
+export const describePassives = (passives: FactionPassives): string[] => {
+  const lines: string[] = [];
+  const change = (value: number, [less, more]: [string, string], line: (amount: string) => string) => {
+    if (value === 1) return;
+    lines.push(line(`${Math.round(Math.abs(1 - value) * 100)}% ${value < 1 ? less : more}`));
+  };
+
+  change(passives.claimGoldCost, ['less', 'more'], amount => `Claims cost ${amount} gold`);
+  change(passives.attack, ['weaker', 'stronger'], amount => `Attacks are ${amount}`);
+  change(passives.defense, ['easier', 'harder'], amount => `Tiles are ${amount} to capture`);
+  change(passives.constructCost, ['less', 'more'], amount => `Constructs cost ${amount}`);
+  change(passives.goldOutput, ['less', 'more'], amount => `Gold constructs make ${amount} gold`);
+  change(passives.unitOutput, ['fewer', 'more'], amount => `Unit constructs make ${amount} units`);
+  if (passives.startingUnitRate > 0) lines.push(`Starts with +${passives.startingUnitRate} units/s`);
+  return lines;
+};
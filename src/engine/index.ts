@@ -0,0 +1,32 @@
+export { initializeGameState, applyAction, tick, advanceTo } from './engine';
+export { resolveIntents, orderIntents, clampIssuedAtTick, MAX_INTENT_AGE_TICKS } from './intents';
+export { setPlayerConnected, forfeitPlayer, getPresence, chooseBotAction, BOT_ACTION_TICKS } from './presence';
+export { auditTransition } from './audit';
+export { clampMatchSettings, getDurationTicks, randomMapSeed } from './settings';
+export { getStartingPositions } from './startingPositions';
+export { generateTerrain } from './mapGenerator';
+export { createRandom, randomInt } from './random';
+export { getDominationTiles, getHillHoldTicks, getHillTile } from './victory';
+export { countSupport, getBattleOdds } from './combat';
+export { getSuppliedTiles } from './supply';
+export type { BattleOdds } from './combat';
+export { describePassives, getAbilityCooldownTicks, getAbilityState, getClaimModifiers, isAbilityActive } from './factions';
+export type { AuditViolation, AuditViolationKind } from './audit';
+export type { QueuedIntent, IntentRejection, ResolvedIntents } from './intents';
+export {
+  areAllies,
+  getAllyIds,
+  isAdjacentToAllies,
+  isAdjacentToPlayer,
+  getClaimGoldCost,
+  getConstructCost,
+  getConstructOutput,
+  getConversionCost,
+  CAPTURED_CONSTRUCT_OUTPUT,
+  getConstructRate,
+  getConstructTier,
+  getTileDefense,
+  isSupplied,
+  getClaimableTiles,
+  getAttackableTiles
+} from './rules';
@@ -0,0 +1,67 @@
+import { GameState } from '../types';
+import { clampIssuedAtTick, MAX_INTENT_AGE_TICKS, QueuedIntent, resolveIntents } from './intents';
+import { startGame } from './testFixtures';
+
+// Start both players next to the neutral tile (4, 4)
+const besideNeutralTile = (): GameState => {
+  const state = startGame({ a: { gold: 100, units: 100 }, b: { gold: 100, units: 100 } });
+  state.players.b.tiles.push({ x: 5, y: 4 });
+  state.grid[4][5].ownerId = 'b';
+  return state;
+};
+
+const claim = (actorId: string, seq: number, issuedAtTick: number, arrival: number): QueuedIntent => ({
+  actorId,
+  seq,
+  arrival,
+  issuedAtTick,
+  baseRevision: 0,
+  action: { type: 'CLAIM_TILE', x: 4, y: 4 }
+});
+
+test('the earlier intent wins a contested claim and the loser is not charged', () => {
+  const state = besideNeutralTile();
+  state.players.a.tiles.push({ x: 4, y: 3 });
+  state.grid[3][4].ownerId = 'a';
+
+  // b's packet arrived first, but a acted a tick earlier
+  const { state: next, rejections } = resolveIntents(state, [claim('b', 1, 6, 1), claim('a', 1, 5, 2)]);
+
+  expect(next.grid[4][4].ownerId).toBe('a');
+  expect(next.players.b.gold).toBe(100);
+  expect(next.lastIntentSeq).toEqual({ a: 1, b: 1 });
+  expect(rejections).toEqual([{
+    actorId: 'b',
+    rejection: { action: { type: 'CLAIM_TILE', x: 4, y: 4 }, seq: 1, reason: 'CONTESTED', contestedBy: 'a' }
+  }]);
+});
+
+test('an attack made after seeing the new owner is fought out, not contested', () => {
+  const state = besideNeutralTile();
+  state.players.a.tiles.push({ x: 4, y: 3 });
+  state.grid[3][4].ownerId = 'a';
+
+  const first = resolveIntents(state, [claim('a', 1, 5, 1)]).state;
+  const attack: QueuedIntent = {
+    ...claim('b', 1, 7, 2),
+    baseRevision: first.revision,
+    action: { type: 'ATTACK_TILE', x: 4, y: 4, units: 50 }
+  };
+  const { state: next, rejections } = resolveIntents(first, [attack]);
+
+  expect(rejections).toEqual([]);
+  expect(next.battles).toHaveLength(1);
+  // The battle is seeded, so it always goes b's way
+  expect(next.battles[0]).toMatchObject({ attackerId: 'b', defenderId: 'a', x: 4, y: 4, committed: 50, captured: true });
+  expect(next.grid[4][4].ownerId).toBe('b');
+  expect(next.players.b.units).toBe(first.players.b.units - 22);
+  expect(next.players.a.units).toBeCloseTo(first.players.a.units - next.battles[0].defenderLosses);
+  expect(next.battles[0].defenderLosses).toBeGreaterThan(0);
+});
+
+test('an intent cannot be backdated past a short window before it reached the host', () => {
+  expect(clampIssuedAtTick(0, 100)).toBe(100 - MAX_INTENT_AGE_TICKS);
+  expect(clampIssuedAtTick(-50, 30)).toBe(30 - MAX_INTENT_AGE_TICKS);
+  expect(clampIssuedAtTick(98, 100)).toBe(98);
+  expect(clampIssuedAtTick(150, 100)).toBe(100);
+});
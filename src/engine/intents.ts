@@ -0,0 +1,71 @@
+import { ActionIntent, ActionRejection, GameState, TICK_MS } from '../types';
+import { applyAction } from './engine';
+import { isInBounds } from './rules';
+
+// An intent waiting on the host, tagged with who sent it and when it arrived
+export interface QueuedIntent extends ActionIntent {
+  actorId: string;
+  arrival: number; // host-side sequence number
+}
+
+export interface IntentRejection {
+  actorId: string;
+  rejection: ActionRejection;
+}
+
+export interface ResolvedIntents {
+  state: GameState;
+  rejections: IntentRejection[];
+}
+
+// How long before reaching the host an intent may say it was issued: about a second
+export const MAX_INTENT_AGE_TICKS = Math.ceil(1000 / TICK_MS);
+
+// The tick an intent that reached the host at hostTick is ordered by. Clients pick
+// issuedAtTick themselves, so it is held to a short window at or before hostTick;
+// backdating an intent further doesn't get it ahead of anyone.
+export const clampIssuedAtTick = (issuedAtTick: number, hostTick: number): number =>
+  Math.min(hostTick, Math.max(hostTick - MAX_INTENT_AGE_TICKS, issuedAtTick));
+
+// Intents are applied in shared-clock order; ties go to whichever reached the host first
+export const orderIntents = (queue: QueuedIntent[]): QueuedIntent[] =>
+  [...queue].sort((a, b) => a.issuedAtTick - b.issuedAtTick || a.arrival - b.arrival);
+
+// A claim is contested if someone else took the tile after the state the player acted on
+const findContestWinner = (state: GameState, intent: QueuedIntent): string | null => {
+  const { action } = intent;
+  if (action.type !== 'CLAIM_TILE' || !isInBounds(state.settings, action.x, action.y)) return null;
+
+  const tile = state.grid[action.y][action.x];
+  if (tile.ownerId === null || tile.ownerId === intent.actorId) return null;
+  return (tile.claimedAtRevision ?? 0) > intent.baseRevision ? tile.ownerId : null;
+};
+
+// Apply a batch of intents on the host. Never mutates the input.
+export const resolveIntents = (state: GameState, queue: QueuedIntent[]): ResolvedIntents => {
+  let next = state;
+  const rejections: IntentRejection[] = [];
+  const lastIntentSeq = { ...state.lastIntentSeq };
+
+  orderIntents(queue).forEach(intent => {
+    lastIntentSeq[intent.actorId] = Math.max(lastIntentSeq[intent.actorId] ?? 0, intent.seq);
+
+    const contestedBy = findContestWinner(next, intent);
+    if (contestedBy && next.players[intent.actorId]) {
+      rejections.push({
+        actorId: intent.actorId,
+        rejection: { action: intent.action, seq: intent.seq, reason: 'CONTESTED', contestedBy }
+      });
+      return;
+    }
+
+    const result = applyAction(next, intent.action, intent.actorId);
+    if (result.ok) {
+      next = result.state;
+    } else {
+      rejections.push({ actorId: intent.actorId, rejection: { action: intent.action, seq: intent.seq, reason: result.reason } });
+    }
+  });
+
+  return { state: queue.length ? { ...next, lastIntentSeq } : next, rejections };
+};
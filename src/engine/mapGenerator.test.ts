@@ -0,0 +1,68 @@
+import { TERRAIN_INFO } from '../types';
+import { generateTerrain } from './mapGenerator';
+import { NEIGHBOR_OFFSETS } from './rules';
+import { getMinGridSize, getStartingPositions } from './startingPositions';
+
+test('the same seed always generates the same map', () => {
+  expect(generateTerrain(24, 42)).toEqual(generateTerrain(24, 42));
+  expect(generateTerrain(24, 42)).not.toEqual(generateTerrain(24, 43));
+});
+
+test('maps look the same from every corner', () => {
+  [12, 16, 24, 25, 48].forEach(gridSize => {
+    const terrain = generateTerrain(gridSize, gridSize * 7);
+    terrain.forEach((row, y) => row.forEach((type, x) => {
+      expect(terrain[x][gridSize - 1 - y]).toBe(type);
+    }));
+  });
+});
+
+test('starts are clear and every open tile can be reached', () => {
+  for (let seed = 0; seed < 20; seed++) {
+    const starts = getStartingPositions(24, 3);
+    const terrain = generateTerrain(24, seed, starts);
+
+    starts.forEach(({ x, y }) => {
+      expect(terrain[y][x]).toBe('plains');
+      expect(terrain[y + 1][x + 1]).toBe('plains');
+    });
+
+    // Flood from the first start over everything that isn't a mountain
+    const open = terrain.flat().filter(type => type !== 'mountain').length;
+    const reached = new Set([`${starts[0].x},${starts[0].y}`]);
+    const queue = [starts[0]];
+    while (queue.length > 0) {
+      const { x, y } = queue.shift()!;
+      [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dy]) => {
+        const next = { x: x + dx, y: y + dy };
+        const type = terrain[next.y]?.[next.x];
+        if (!type || type === 'mountain' || reached.has(`${next.x},${next.y}`)) return;
+        reached.add(`${next.x},${next.y}`);
+        queue.push(next);
+      });
+    }
+    expect(reached.size).toBe(open);
+  }
+});
+
+test('every start is on plains with a tile to claim, whatever the seed', () => {
+  [12, 17, 24, 31, 40].forEach(gridSize => {
+    for (let count = 2; count <= 8; count++) {
+      if (gridSize < getMinGridSize(count)) continue;
+      const starts = getStartingPositions(gridSize, count);
+
+      for (let seed = 0; seed < 40; seed++) {
+        const terrain = generateTerrain(gridSize, seed, starts);
+        starts.forEach(({ x, y }) => {
+          expect(terrain[y][x]).toBe('plains');
+          expect(NEIGHBOR_OFFSETS.some(({ dx, dy }) => TERRAIN_INFO[terrain[y + dy][x + dx]].claimable)).toBe(true);
+        });
+      }
+    }
+  });
+
+  // Walled in with the default settings before starts were cut free
+  const starts = getStartingPositions(24, 2);
+  const terrain = generateTerrain(24, 506, starts);
+  starts.forEach(({ x, y }) => expect(terrain[y][x]).toBe('plains'));
+});
@@ -0,0 +1,106 @@
+import { Terrain } from '../types';
+import { NEIGHBOR_OFFSETS } from './rules';
+import { createRandom, randomInt } from './random';
+
+type Point = { x: number; y: number };
+
+// Tiles kept clear around each start and the centre, so nobody opens boxed in
+const START_CLEARANCE = 2;
+const CENTRE_CLEARANCE = 1;
+
+// The four quarter-turns of a tile around the middle of the map
+const orbit = (gridSize: number, { x, y }: Point): Point[] => [
+  { x, y },
+  { x: gridSize - 1 - y, y: x },
+  { x: gridSize - 1 - x, y: gridSize - 1 - y },
+  { x: y, y: gridSize - 1 - x }
+];
+
+// Generate the terrain for a map. Everything is painted in all four quarter-turns at
+// once, so the layout looks the same from every corner and no start is favoured.
+// keepClear lists tiles (usually the starts) that stay plains, along with their surroundings.
+export const generateTerrain = (gridSize: number, seed: number, keepClear: Point[] = []): Terrain[][] => {
+  const random = createRandom(seed);
+  const terrain: Terrain[][] = Array.from({ length: gridSize }, () => Array<Terrain>(gridSize).fill('plains'));
+
+  const inBounds = ({ x, y }: Point) => x >= 0 && x < gridSize && y >= 0 && y < gridSize;
+  const paint = (point: Point, type: Terrain) => {
+    if (!inBounds(point)) return;
+    orbit(gridSize, point).forEach(({ x, y }) => { terrain[y][x] = type; });
+  };
+
+  const half = Math.ceil(gridSize / 2);
+  const quarterTiles = half * half;
+  const randomPoint = (): Point => ({ x: randomInt(random, half), y: randomInt(random, half) });
+
+  // Wander from a random tile, painting as we go
+  const walk = (type: Terrain, length: number, start: Point = randomPoint(), biasDown = false) => {
+    let point = start;
+    for (let i = 0; i < length; i++) {
+      paint(point, type);
+      const { dx, dy } = biasDown && random() < 0.5
+        ? { dx: 0, dy: 1 }
+        : NEIGHBOR_OFFSETS[randomInt(random, NEIGHBOR_OFFSETS.length)];
+      const next = { x: point.x + dx, y: point.y + dy };
+      if (inBounds(next)) point = next;
+    }
+  };
+
+  // A river runs in from the top edge of each quarter
+  walk('river', half, { x: randomInt(random, half), y: 0 }, true);
+
+  for (let i = 0; i < Math.max(1, Math.round(quarterTiles / 50)); i++) {
+    walk('forest', 4 + randomInt(random, 4));
+  }
+  for (let i = 0; i < Math.max(1, Math.round(quarterTiles / 60)); i++) {
+    walk('mountain', 3 + randomInt(random, 4));
+  }
+  for (let i = 0; i < Math.max(1, Math.round(quarterTiles / 48)); i++) {
+    const point = randomPoint();
+    if (terrain[point.y][point.x] === 'plains') paint(point, 'gold');
+  }
+
+  const clearAround = ({ x, y }: Point, radius: number) => {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) paint({ x: x + dx, y: y + dy }, 'plains');
+    }
+  };
+  const centre = { x: Math.floor(gridSize / 2), y: Math.floor(gridSize / 2) };
+  clearAround(centre, CENTRE_CLEARANCE);
+  keepClear.forEach(point => clearAround(point, START_CLEARANCE));
+
+  // Cut a way through any mountains between each start and the centre, so no start
+  // ends up walled in by the pass below
+  keepClear.forEach(start => {
+    const point = { ...start };
+    while (point.x !== centre.x || point.y !== centre.y) {
+      if (point.x !== centre.x) {
+        point.x += Math.sign(centre.x - point.x);
+      } else {
+        point.y += Math.sign(centre.y - point.y);
+      }
+      if (inBounds(point) && terrain[point.y][point.x] === 'mountain') paint(point, 'plains');
+    }
+  });
+
+  // Mountains must never wall off part of the map: anything the centre can't reach
+  // becomes mountain too
+  const reached = new Set<string>();
+  const queue = orbit(gridSize, centre);
+  queue.forEach(({ x, y }) => reached.add(`${x},${y}`));
+  while (queue.length > 0) {
+    const { x, y } = queue.shift()!;
+    NEIGHBOR_OFFSETS.forEach(({ dx, dy }) => {
+      const next = { x: x + dx, y: y + dy };
+      const key = `${next.x},${next.y}`;
+      if (!inBounds(next) || reached.has(key) || terrain[next.y][next.x] === 'mountain') return;
+      reached.add(key);
+      queue.push(next);
+    });
+  }
+  terrain.forEach((row, y) => row.forEach((_, x) => {
+    if (!reached.has(`${x},${y}`)) row[x] = 'mountain';
+  }));
+
+  return terrain;
+};
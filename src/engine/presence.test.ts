@@ -0,0 +1,57 @@
+import { DEFAULT_MATCH_SETTINGS, DISCONNECT_GRACE_TICKS, DisconnectPolicy, GameState, TICK_MS } from '../types';
+import { advanceTo } from './engine';
+import { forfeitPlayer, setPlayerConnected } from './presence';
+import { startGame } from './testFixtures';
+
+const threePlayerGame = (policy: DisconnectPolicy): GameState => startGame({ a: {}, b: {}, c: {} }, policy);
+
+// b drops at tick 0 and never comes back
+const afterGracePeriod = (policy: DisconnectPolicy) =>
+  advanceTo(setPlayerConnected(threePlayerGame(policy), 'b', false), DISCONNECT_GRACE_TICKS);
+
+test('a player who reconnects within the grace period is unaffected', () => {
+  const dropped = setPlayerConnected(threePlayerGame('forfeit'), 'b', false);
+  expect(dropped.presence.b).toEqual({ status: 'reconnecting', disconnectedAtTick: 0 });
+
+  const back = setPlayerConnected(advanceTo(dropped, DISCONNECT_GRACE_TICKS - 1), 'b', true);
+  expect(advanceTo(back, DISCONNECT_GRACE_TICKS + 1).presence.b.status).toBe('connected');
+  expect(setPlayerConnected(back, 'b', true)).toBe(back);
+});
+
+test('frozen players keep their territory but stop earning and cannot win', () => {
+  const state = afterGracePeriod('freeze');
+  expect(state.presence.b.status).toBe('frozen');
+  expect(state.players.b.tiles).toHaveLength(1);
+
+  // Even holding the most tiles, b loses to the next best player (a edges out c on units)
+  const biggest = { ...state.players.b, tiles: [{ x: 20, y: 20 }, { x: 20, y: 21 }] };
+  const players = { ...state.players, a: { ...state.players.a, units: 1 }, b: biggest };
+  const ended = advanceTo({ ...state, players }, DEFAULT_MATCH_SETTINGS.durationMs / TICK_MS);
+  expect(ended.players.b.gold).toBeCloseTo(state.players.b.gold);
+  expect(ended.winner).toBe('a');
+});
+
+test('forfeited territory returns to neutral', () => {
+  const state = afterGracePeriod('forfeit');
+  expect(state.presence.b.status).toBe('forfeited');
+  expect(state.players.b.tiles).toEqual([]);
+  expect(state.grid[20][20].ownerId).toBeNull();
+
+  // Reconnecting doesn't undo a forfeit
+  expect(setPlayerConnected(state, 'b', true).presence.b.status).toBe('forfeited');
+});
+
+test('a player can be forfeited outright, once', () => {
+  const state = forfeitPlayer(threePlayerGame('freeze'), 'b');
+  expect(state.presence.b.status).toBe('forfeited');
+  expect(state.players.b.tiles).toEqual([]);
+  expect(forfeitPlayer(state, 'b')).toBe(state);
+});
+
+test('a bot keeps claiming tiles for a disconnected player', () => {
+  const state = afterGracePeriod('bot');
+  expect(state.presence.b.status).toBe('bot');
+
+  const later = advanceTo(state, DISCONNECT_GRACE_TICKS + 200);
+  expect(later.players.b.tiles.length).toBeGreaterThan(1);
+});
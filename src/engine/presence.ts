@@ -0,0 +1,105 @@
+import { DISCONNECT_GRACE_TICKS, GameAction, GameState, PlayerPresence } from '../types';
+import { getClaimableTiles } from './rules';
+import { updateSupplyInPlace } from './supply';
+import { settleMatchInPlace } from './victory';
+
+// Bots act once a second so they don't outpace real players
+export const BOT_ACTION_TICKS = 10;
+
+const CONNECTED: PlayerPresence = { status: 'connected', disconnectedAtTick: null };
+
+export const getPresence = (state: GameState, playerId: string): PlayerPresence =>
+  state.presence[playerId] ?? CONNECTED;
+
+// Frozen and forfeited players don't earn anything
+export const canAccrue = (state: GameState, playerId: string): boolean => {
+  const { status } = getPresence(state, playerId);
+  return status !== 'frozen' && status !== 'forfeited';
+};
+
+// Record what the host sees of a player's connection. Returns the same state when nothing changes.
+export const setPlayerConnected = (state: GameState, playerId: string, connected: boolean): GameState => {
+  const presence = getPresence(state, playerId);
+  if (presence.status === 'forfeited') return state;
+
+  if (connected) {
+    if (presence.status === 'connected') return state;
+    return { ...state, presence: { ...state.presence, [playerId]: CONNECTED } };
+  }
+
+  if (presence.status !== 'connected') return state;
+  return {
+    ...state,
+    presence: { ...state.presence, [playerId]: { status: 'reconnecting', disconnectedAtTick: state.tick } }
+  };
+};
+
+const forfeitInPlace = (state: GameState, playerId: string) => {
+  const player = state.players[playerId];
+  player.tiles.forEach(({ x, y }) => {
+    const tile = state.grid[y][x];
+    tile.ownerId = null;
+    tile.color = null;
+    tile.construct = null;
+    tile.defenseBonus = 0;
+    delete state.unsupplied[`${x},${y}`];
+  });
+  player.tiles = [];
+  player.goldRate = 0;
+  player.unitRate = 0;
+
+  // Teammates may have been supplied through the territory that's gone
+  updateSupplyInPlace(state, [playerId]);
+
+  settleMatchInPlace(state, false);
+};
+
+// Apply the lobby's disconnect policy to anyone whose grace period has run out
+export const expireGracePeriodsInPlace = (state: GameState) => {
+  Object.entries(state.presence).forEach(([playerId, presence]) => {
+    if (presence.status !== 'reconnecting' || presence.disconnectedAtTick === null) return;
+    if (state.tick - presence.disconnectedAtTick < DISCONNECT_GRACE_TICKS) return;
+
+    switch (state.disconnectPolicy) {
+      case 'freeze':
+        presence.status = 'frozen';
+        break;
+      case 'bot':
+        presence.status = 'bot';
+        break;
+      case 'forfeit':
+        presence.status = 'forfeited';
+        forfeitInPlace(state, playerId);
+        break;
+    }
+  });
+};
+
+// Remove a player from the game for good, e.g. after they were voted out.
+// Returns the same state if they're already gone.
+export const forfeitPlayer = (state: GameState, playerId: string): GameState => {
+  if (!state.players[playerId] || getPresence(state, playerId).status === 'forfeited') return state;
+
+  const next = JSON.parse(JSON.stringify(state)) as GameState;
+  next.presence[playerId] = { status: 'forfeited', disconnectedAtTick: getPresence(state, playerId).disconnectedAtTick };
+  forfeitInPlace(next, playerId);
+  return next;
+};
+
+export const getBotPlayerIds = (state: GameState): string[] =>
+  Object.keys(state.presence).filter(id => state.presence[id].status === 'bot' && state.players[id]);
+
+// A bot claims the first affordable neutral tile it can reach, scanning row by row,
+// so every peer picks the same one
+export const chooseBotAction = (state: GameState, playerId: string): GameAction | null => {
+  const claimable = getClaimableTiles(state, playerId);
+
+  for (let y = 0; y < state.grid.length; y++) {
+    for (let x = 0; x < state.grid[y].length; x++) {
+      if (state.grid[y][x].ownerId === null && claimable.has(`${x},${y}`)) {
+        return { type: 'CLAIM_TILE', x, y };
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,15 @@
+// A small seeded generator (mulberry32). Every peer that starts from the same seed
+// draws the same numbers, which Math.random can't promise.
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A whole number from 0 up to, but not including, max
+export const randomInt = (random: () => number, max: number): number => Math.floor(random() * max);
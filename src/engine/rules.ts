@@ -0,0 +1,191 @@
+import { Construct, ConstructType, Faction, FACTION_INFO, GameState, MatchSettings, MAX_CONSTRUCT_LEVEL, Player, TERRAIN_INFO, Tile } from '../types';
+import { getClaimModifiers } from './factions';
+
+// Four-way neighbours used for adjacency checks
+export const NEIGHBOR_OFFSETS = [
+  { dx: 1, dy: 0 },
+  { dx: -1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: 0, dy: -1 }
+];
+
+export const isInBounds = (settings: MatchSettings, x: number, y: number): boolean =>
+  Number.isInteger(x) && Number.isInteger(y) && x >= 0 && x < settings.gridSize && y >= 0 && y < settings.gridSize;
+
+// Costs stay whole numbers whatever the multiplier
+export const scaleCost = (cost: number, multiplier: number): number => Math.round(cost * multiplier);
+
+// Teammates in a team match; everyone is on their own otherwise
+export const areAllies = (state: GameState, playerId: string, otherId: string): boolean => {
+  if (playerId === otherId) return true;
+  if (!state.settings.teamMode) return false;
+
+  const team = state.players[playerId]?.team;
+  return team !== undefined && team === state.players[otherId]?.team;
+};
+
+// The player and their teammates
+export const getAllyIds = (state: GameState, playerId: string): string[] =>
+  Object.keys(state.players).filter(id => areAllies(state, playerId, id));
+
+// Tiles connected to their owner's capital are supplied; see supply.ts
+export const isSupplied = (state: Pick<GameState, 'unsupplied'>, x: number, y: number): boolean =>
+  state.unsupplied[`${x},${y}`] === undefined;
+
+// A tile is adjacent if it shares an edge with one of the player's tiles
+export const isAdjacentToPlayer = (player: Player, x: number, y: number): boolean =>
+  player.tiles.some(playerTile => (
+    (Math.abs(playerTile.x - x) === 1 && playerTile.y === y) ||
+    (Math.abs(playerTile.y - y) === 1 && playerTile.x === x)
+  ));
+
+// In team matches an ally's territory counts as the player's own for adjacency
+export const isAdjacentToAllies = (state: GameState, playerId: string, x: number, y: number): boolean =>
+  getAllyIds(state, playerId).some(id => isAdjacentToPlayer(state.players[id], x, y));
+
+// Gold cost for claiming a tile: base 10, plus 2 for each tile already owned,
+// more on difficult terrain and adjusted for the player's faction
+export const getClaimGoldCost = (state: GameState, playerId: string, tile: Tile): number => {
+  const baseCost = 10;
+  const territorySizeCost = state.players[playerId].tiles.length * 2;
+  const terrainFactor = TERRAIN_INFO[tile.terrain].claimCostFactor;
+  const factionFactor = getClaimModifiers(state, playerId).claimGoldCost;
+
+  return scaleCost((baseCost + territorySizeCost) * terrainFactor, state.settings.claimCostMultiplier * factionFactor);
+};
+
+// What one level of a construct costs to reach and what it gives: gold/s for gold
+// constructs, units/s for unit constructs, defense on the tile for defense constructs.
+// Defense constructs also cover the owner's neighbouring tiles with their area defense.
+export interface ConstructTier {
+  cost: number;
+  output: number;
+  areaDefense: number;
+}
+
+const CONSTRUCT_TIERS: Partial<Record<ConstructType, ConstructTier[]>> = {
+  [ConstructType.GOLD]: [
+    { cost: 20, output: 1, areaDefense: 0 },
+    { cost: 40, output: 2, areaDefense: 0 },
+    { cost: 80, output: 3.5, areaDefense: 0 }
+  ],
+  [ConstructType.UNIT]: [
+    { cost: 15, output: 1, areaDefense: 0 },
+    { cost: 30, output: 2, areaDefense: 0 },
+    { cost: 60, output: 3.5, areaDefense: 0 }
+  ],
+  [ConstructType.DEFENSE]: [
+    { cost: 25, output: 10, areaDefense: 0 },
+    { cost: 50, output: 15, areaDefense: 5 },
+    { cost: 100, output: 25, areaDefense: 10 }
+  ]
+};
+
+// A construct's tier at the given level, or null if the type can't be built that high
+export const getConstructTier = (type: ConstructType, level: number): ConstructTier | null =>
+  (level >= 1 && level <= MAX_CONSTRUCT_LEVEL && CONSTRUCT_TIERS[type]?.[level - 1]) || null;
+
+// Gold or units per second a construct adds to its owner's rate at a level
+export const getConstructRate = (type: ConstructType, level: number, faction: Faction): number => {
+  const output = getConstructTier(type, level)?.output ?? 0;
+  const { passives } = FACTION_INFO[faction];
+  if (type === ConstructType.GOLD) return output * passives.goldOutput;
+  if (type === ConstructType.UNIT) return output * passives.unitOutput;
+  return 0;
+};
+
+// Constructs captured from another faction work at this share until they're converted
+export const CAPTURED_CONSTRUCT_OUTPUT = 0.5;
+
+const getConstructEfficiency = (construct: Construct, ownerFaction: Faction): number =>
+  construct.faction === ownerFaction ? 1 : CAPTURED_CONSTRUCT_OUTPUT;
+
+// What a construct gives its owner right now: gold/s, units/s, or defense on its tile
+export const getConstructOutput = (construct: Construct, ownerFaction: Faction): number => {
+  const { type, level, faction } = construct;
+  const output = type === ConstructType.DEFENSE
+    ? getConstructTier(type, level)?.output ?? 0
+    : getConstructRate(type, level, faction);
+  return output * getConstructEfficiency(construct, ownerFaction);
+};
+
+// Everything that makes a tile harder to take: a defense construct on it, the best
+// cover from the owner's supplied defense constructs next door, and the terrain
+export const getTileDefense = (state: GameState, tile: Tile): number => {
+  const owner = tile.ownerId ? state.players[tile.ownerId] : undefined;
+  const areaDefense = NEIGHBOR_OFFSETS.reduce((best, { dx, dy }) => {
+    if (!owner || !isInBounds(state.settings, tile.x + dx, tile.y + dy)) return best;
+    const neighbour = state.grid[tile.y + dy][tile.x + dx];
+    const construct = neighbour.construct;
+    if (neighbour.ownerId !== tile.ownerId || construct?.type !== ConstructType.DEFENSE) return best;
+    if (!isSupplied(state, neighbour.x, neighbour.y)) return best;
+
+    const area = (getConstructTier(construct.type, construct.level)?.areaDefense ?? 0) *
+      getConstructEfficiency(construct, owner.faction);
+    return Math.max(best, area);
+  }, 0);
+
+  return (tile.defenseBonus || 0) + areaDefense + TERRAIN_INFO[tile.terrain].defense;
+};
+
+// Gold cost for a faction to build a construct (level 1) or upgrade it to the given
+// level, or null if the type can't reach that level
+export const getConstructCost = (
+  type: ConstructType,
+  settings: MatchSettings,
+  faction: Faction,
+  level = 1
+): number | null => {
+  const tier = getConstructTier(type, level);
+  const factionFactor = FACTION_INFO[faction].passives.constructCost;
+  return tier === null ? null : scaleCost(tier.cost, settings.constructCostMultiplier * factionFactor);
+};
+
+// Gold for a faction to convert a captured construct to its own design: half of what
+// building it to its current level would have cost them
+export const getConversionCost = (construct: Construct, settings: MatchSettings, faction: Faction): number => {
+  let total = 0;
+  for (let level = 1; level <= construct.level; level++) {
+    total += getConstructCost(construct.type, settings, faction, level) ?? 0;
+  }
+  return Math.round(total / 2);
+};
+
+// Tiles bordering the player's or their allies' territory that someone else could hold
+const getBorderTiles = (state: GameState, playerId: string): Tile[] => {
+  const allyIds = getAllyIds(state, playerId);
+  const border = new Map<string, Tile>();
+
+  allyIds.flatMap(id => state.players[id].tiles).forEach(({ x, y }) => {
+    NEIGHBOR_OFFSETS.forEach(({ dx, dy }) => {
+      if (!isInBounds(state.settings, x + dx, y + dy)) return;
+
+      const cell = state.grid[y + dy][x + dx];
+      if (!TERRAIN_INFO[cell.terrain].claimable || (cell.ownerId && allyIds.includes(cell.ownerId))) return;
+      border.set(`${cell.x},${cell.y}`, cell);
+    });
+  });
+
+  return Array.from(border.values());
+};
+
+// Neutral tiles the player could claim right now, keyed as "x,y"
+export const getClaimableTiles = (state: GameState, playerId: string): Set<string> => {
+  const player = state.players[playerId];
+  if (!player) return new Set();
+
+  return new Set(getBorderTiles(state, playerId)
+    .filter(cell => cell.ownerId === null && player.gold >= getClaimGoldCost(state, playerId, cell))
+    .map(({ x, y }) => `${x},${y}`));
+};
+
+// Enemy tiles the player could attack right now, keyed as "x,y". Taking one costs
+// the same gold as a claim, paid only if the attack succeeds.
+export const getAttackableTiles = (state: GameState, playerId: string): Set<string> => {
+  const player = state.players[playerId];
+  if (!player || player.units < 1) return new Set();
+
+  return new Set(getBorderTiles(state, playerId)
+    .filter(cell => cell.ownerId !== null && player.gold >= getClaimGoldCost(state, playerId, cell))
+    .map(({ x, y }) => `${x},${y}`));
+};
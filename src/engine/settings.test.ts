@@ -0,0 +1,28 @@
+import { DEFAULT_MATCH_SETTINGS, MATCH_SETTING_LIMITS, TICK_MS } from '../types';
+import { clampMatchSettings, getDurationTicks } from './settings';
+import { getMinGridSize } from './startingPositions';
+
+test('clampMatchSettings keeps edits in range and never seats fewer than the lobby holds', () => {
+  const clamped = clampMatchSettings({
+    ...DEFAULT_MATCH_SETTINGS,
+    gridSize: 1000,
+    startingGold: -5,
+    claimCostMultiplier: 10,
+    maxPlayers: 1
+  }, 3);
+
+  expect(clamped.gridSize).toBe(MATCH_SETTING_LIMITS.gridSize.max);
+  expect(clamped.startingGold).toBe(0);
+  expect(clamped.claimCostMultiplier).toBe(MATCH_SETTING_LIMITS.costMultiplier.max);
+  expect(clamped.maxPlayers).toBe(3);
+});
+
+test('clampMatchSettings grows the map until every player has room to start', () => {
+  expect(clampMatchSettings({ ...DEFAULT_MATCH_SETTINGS, gridSize: 12, maxPlayers: 8 }, 2).gridSize).toBe(getMinGridSize(8));
+  expect(clampMatchSettings({ ...DEFAULT_MATCH_SETTINGS, gridSize: 12, maxPlayers: 2 }, 2).gridSize).toBe(12);
+});
+
+test('getDurationTicks has no limit for elimination matches', () => {
+  expect(getDurationTicks(DEFAULT_MATCH_SETTINGS)).toBe(DEFAULT_MATCH_SETTINGS.durationMs / TICK_MS);
+  expect(getDurationTicks({ ...DEFAULT_MATCH_SETTINGS, winCondition: 'elimination' })).toBeNull();
+});
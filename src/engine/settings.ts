@@ -0,0 +1,39 @@
+import { MAP_SEED_RANGE, MATCH_SETTING_LIMITS, MatchSettings, TICK_MS } from '../types';
+import { getMinGridSize } from './startingPositions';
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+  Math.min(max, Math.max(min, value));
+
+// Ticks until the match times out, or null when it only ends by elimination
+export const getDurationTicks = (settings: MatchSettings): number | null =>
+  settings.winCondition === 'elimination' ? null : Math.round(settings.durationMs / TICK_MS);
+
+// A fresh seed for a new map. Only ever rolled in the lobby, never during a match.
+export const randomMapSeed = (): number => Math.floor(Math.random() * MAP_SEED_RANGE);
+
+// Keep host edits within what the game supports. The player cap never drops below
+// the players already in the lobby, and the map is always big enough to give that
+// many players room to start.
+export const clampMatchSettings = (settings: MatchSettings, playerCount: number): MatchSettings => {
+  const maxPlayers = Math.round(clamp(settings.maxPlayers, {
+    min: Math.max(playerCount, MATCH_SETTING_LIMITS.maxPlayers.min),
+    max: MATCH_SETTING_LIMITS.maxPlayers.max
+  }));
+
+  return {
+    ...settings,
+    gridSize: Math.round(clamp(settings.gridSize, {
+      min: Math.max(getMinGridSize(maxPlayers), MATCH_SETTING_LIMITS.gridSize.min),
+      max: MATCH_SETTING_LIMITS.gridSize.max
+    })),
+    durationMs: clamp(settings.durationMs, MATCH_SETTING_LIMITS.durationMs),
+    maxPlayers,
+    startingGold: clamp(settings.startingGold, MATCH_SETTING_LIMITS.startingGold),
+    claimCostMultiplier: clamp(settings.claimCostMultiplier, MATCH_SETTING_LIMITS.costMultiplier),
+    constructCostMultiplier: clamp(settings.constructCostMultiplier, MATCH_SETTING_LIMITS.costMultiplier),
+    dominationPercent: clamp(settings.dominationPercent, MATCH_SETTING_LIMITS.dominationPercent),
+    goldTarget: clamp(settings.goldTarget, MATCH_SETTING_LIMITS.goldTarget),
+    hillHoldMs: clamp(settings.hillHoldMs, MATCH_SETTING_LIMITS.hillHoldMs),
+    mapSeed: Math.floor(Math.abs(settings.mapSeed)) % MAP_SEED_RANGE
+  };
+};
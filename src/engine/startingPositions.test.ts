@@ -0,0 +1,50 @@
+import { getMinGridSize, getStartingPositions } from './startingPositions';
+
+const distanceFromCentre = (gridSize: number, { x, y }: { x: number; y: number }) => {
+  const centre = (gridSize - 1) / 2;
+  return Math.max(Math.abs(x - centre), Math.abs(y - centre));
+};
+
+test('two and four players start in opposite corners', () => {
+  expect(getStartingPositions(24, 2)).toEqual([{ x: 3, y: 3 }, { x: 20, y: 20 }]);
+  expect(getStartingPositions(24, 4)).toEqual([
+    { x: 3, y: 3 },
+    { x: 20, y: 3 },
+    { x: 20, y: 20 },
+    { x: 3, y: 20 }
+  ]);
+});
+
+test('every player count up to 8 gets distinct starts on the ring for every map size', () => {
+  [12, 16, 24, 32, 48].forEach(gridSize => {
+    for (let count = 2; count <= 8; count++) {
+      const starts = getStartingPositions(gridSize, count);
+      const keys = new Set(starts.map(({ x, y }) => `${x},${y}`));
+
+      expect(keys.size).toBe(count);
+      starts.forEach(start => {
+        expect(start.x).toBeGreaterThanOrEqual(0);
+        expect(start.x).toBeLessThan(gridSize);
+        // Rounding can move a start half a tile off the ring, no more
+        expect(Math.abs(distanceFromCentre(gridSize, start) - ((gridSize - 1) / 2 - 3))).toBeLessThanOrEqual(0.5);
+      });
+    }
+  });
+});
+
+test('neighbouring starts are equally far apart along the ring on any map big enough for them', () => {
+  [12, 16, 24, 32, 48].forEach(gridSize => {
+    for (let count = 2; count <= 8; count++) {
+      if (gridSize < getMinGridSize(count)) continue;
+      const starts = getStartingPositions(gridSize, count);
+      const gaps = starts.map((start, index) => {
+        const next = starts[(index + 1) % count];
+        return Math.abs(next.x - start.x) + Math.abs(next.y - start.y);
+      });
+
+      // Rounding each start to a tile can stretch or shrink a gap by a tile either way
+      expect(Math.max(...gaps) - Math.min(...gaps)).toBeLessThanOrEqual(2);
+      expect(Math.min(...gaps)).toBeGreaterThanOrEqual(6);
+    }
+  });
+});
@@ -0,0 +1,31 @@
+// Starts sit this many tiles in from the edge of the map
+const EDGE_MARGIN = 3;
+
+// The fewest tiles along the ring between neighbouring starts
+const MIN_START_SPACING = 8;
+
+// The smallest map whose ring leaves MIN_START_SPACING tiles between every start
+export const getMinGridSize = (count: number): number =>
+  Math.ceil((count * MIN_START_SPACING) / 4) + 2 * EDGE_MARGIN + 1;
+
+// Spread starting tiles at equal distances along a square ring EDGE_MARGIN tiles in from
+// the edge, walking clockwise from the top-left corner. The first player always starts
+// there, and with 2, 4 or 8 players every start is a rotation of the others.
+export const getStartingPositions = (gridSize: number, count: number): { x: number; y: number }[] => {
+  const low = Math.min(EDGE_MARGIN, (gridSize - 1) / 2);
+  const side = gridSize - 1 - 2 * low;
+
+  return Array.from({ length: count }, (_, index) => {
+    const distance = (4 * side * index) / count;
+    const edge = side > 0 ? Math.floor(distance / side) : 0;
+    const along = distance - edge * side;
+
+    const [x, y] = [
+      [low + along, low],
+      [low + side, low + along],
+      [low + side - along, low + side],
+      [low, low + side - along]
+    ][edge];
+    return { x: Math.round(x), y: Math.round(y) };
+  });
+};
@@ -0,0 +1,62 @@
+import { ConstructType, GameState, UNSUPPLIED_DECAY_TICKS } from '../types';
+import { auditTransition } from './audit';
+import { getBattleOdds } from './combat';
+import { advanceTo } from './engine';
+import { isSupplied } from './rules';
+import { act, onPlains, startGame } from './testFixtures';
+
+// a runs a line from their capital at (3, 3) out to a Farm at (6, 3); b holds the
+// tile under the middle of it and has the units to cut it
+const supplyLine = (): GameState => {
+  const state = onPlains(startGame({ a: { gold: 100 }, b: { gold: 100 } }));
+  [4, 5, 6].forEach(x => {
+    state.players.a.tiles.push({ x, y: 3 });
+    state.grid[3][x].ownerId = 'a';
+  });
+  state.players.b.tiles.push({ x: 5, y: 4 });
+  state.grid[4][5].ownerId = 'b';
+  state.players.b.units = 10000;
+  return act(state, { type: 'BUILD_CONSTRUCT', x: 6, y: 3, constructType: ConstructType.GOLD }, 'a');
+};
+
+const cut = (state: GameState) => act(state, { type: 'ATTACK_TILE', x: 5, y: 3, units: 10000 }, 'b');
+
+test('tiles cut off from the capital lose their constructs and half their defense', () => {
+  const state = supplyLine();
+  const next = cut(state);
+
+  expect(next.grid[3][5].ownerId).toBe('b');
+  expect(isSupplied(next, 4, 3)).toBe(true);
+  expect(isSupplied(next, 6, 3)).toBe(false);
+  expect(next.players.a.goldRate).toBe(state.players.a.goldRate - 1.5);
+  expect(getBattleOdds(next, 'b', 6, 3, 1).defense).toBe(2.5);
+});
+
+test('reconnecting a tile restores its supply', () => {
+  const state = cut(supplyLine());
+  state.players.a.units = 10000;
+  const next = act(state, { type: 'ATTACK_TILE', x: 5, y: 3, units: 10000 }, 'a');
+
+  expect(isSupplied(next, 6, 3)).toBe(true);
+  expect(next.players.a.goldRate).toBe(state.players.a.goldRate + 1.5);
+  expect(auditTransition(state, next)).toEqual([]);
+});
+
+test('unsupplied tiles go neutral once they have been cut off long enough', () => {
+  const state = cut(supplyLine());
+  const next = advanceTo(state, state.tick + UNSUPPLIED_DECAY_TICKS);
+
+  expect(next.grid[3][6]).toMatchObject({ ownerId: null, construct: null });
+  expect(next.players.a.tiles).toEqual([{ x: 3, y: 3 }, { x: 4, y: 3 }]);
+  expect(next.unsupplied['6,3']).toBeUndefined();
+});
+
+test('a player whose capital falls is supplied from the nearest tile they still hold', () => {
+  const state = supplyLine();
+  state.players.b.tiles.push({ x: 3, y: 4 });
+  state.grid[4][3].ownerId = 'b';
+  const next = act(state, { type: 'ATTACK_TILE', x: 3, y: 3, units: 10000 }, 'b');
+
+  expect(next.capitals.a).toEqual({ x: 4, y: 3 });
+  expect(next.players.a.tiles.every(({ x, y }) => isSupplied(next, x, y))).toBe(true);
+});
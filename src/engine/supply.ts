@@ -0,0 +1,95 @@
+import { GameState, TERRAIN_INFO, UNSUPPLIED_DECAY_TICKS } from '../types';
+import { applyConstructEffectInPlace } from './constructs';
+import { getAllyIds, isInBounds, isSupplied, NEIGHBOR_OFFSETS } from './rules';
+
+const key = (x: number, y: number) => `${x},${y}`;
+
+// A player whose capital fell draws supply from their tile nearest to it instead
+const relocateCapitalInPlace = (state: GameState, playerId: string) => {
+  const player = state.players[playerId];
+  const capital = state.capitals[playerId];
+  if (!capital || player.tiles.length === 0 || state.grid[capital.y][capital.x].ownerId === playerId) return;
+
+  const distance = ({ x, y }: { x: number; y: number }) => Math.abs(x - capital.x) + Math.abs(y - capital.y);
+  const nearest = player.tiles.reduce((best, tile) => (distance(tile) < distance(best) ? tile : best));
+  state.capitals[playerId] = { x: nearest.x, y: nearest.y };
+};
+
+// The player's tiles that can be reached from their capital without leaving their
+// own or their allies' territory
+export const getSuppliedTiles = (state: GameState, playerId: string): Set<string> => {
+  const supplied = new Set<string>();
+  const capital = state.capitals[playerId];
+  if (!capital || state.grid[capital.y][capital.x].ownerId !== playerId) return supplied;
+
+  const allyIds = new Set(getAllyIds(state, playerId));
+  const visited = new Set([key(capital.x, capital.y)]);
+  const queue = [capital];
+  while (queue.length > 0) {
+    const { x, y } = queue.pop()!;
+    if (state.grid[y][x].ownerId === playerId) supplied.add(key(x, y));
+
+    NEIGHBOR_OFFSETS.forEach(({ dx, dy }) => {
+      const next = { x: x + dx, y: y + dy };
+      if (!isInBounds(state.settings, next.x, next.y) || visited.has(key(next.x, next.y))) return;
+
+      const ownerId = state.grid[next.y][next.x].ownerId;
+      if (ownerId === null || !allyIds.has(ownerId)) return;
+      visited.add(key(next.x, next.y));
+      queue.push(next);
+    });
+  }
+  return supplied;
+};
+
+// Recheck supply for the given players and their allies after territory changed
+// hands. Only tiles whose supply changed are touched: their constructs stop or start
+// working, and cut-off tiles remember when they were cut off.
+export const updateSupplyInPlace = (state: GameState, playerIds: string[]) => {
+  const affected = new Set(playerIds.filter(id => state.players[id]).flatMap(id => getAllyIds(state, id)));
+
+  affected.forEach(playerId => {
+    relocateCapitalInPlace(state, playerId);
+    const supplied = getSuppliedTiles(state, playerId);
+
+    state.players[playerId].tiles.forEach(({ x, y }) => {
+      const wasSupplied = isSupplied(state, x, y);
+      if (supplied.has(key(x, y)) === wasSupplied) return;
+
+      applyConstructEffectInPlace(state, x, y, -1);
+      if (wasSupplied) {
+        state.unsupplied[key(x, y)] = state.tick;
+      } else {
+        delete state.unsupplied[key(x, y)];
+      }
+      applyConstructEffectInPlace(state, x, y, 1);
+    });
+  });
+};
+
+// Tiles left unsupplied for too long go back to neutral, constructs and all
+export const decayUnsuppliedInPlace = (state: GameState) => {
+  const decayed = Object.keys(state.unsupplied).filter(tileKey => state.tick - state.unsupplied[tileKey] >= UNSUPPLIED_DECAY_TICKS);
+  if (decayed.length === 0) return;
+
+  const ownerIds = new Set<string>();
+  decayed.forEach(tileKey => {
+    const [x, y] = tileKey.split(',').map(Number);
+    const tile = state.grid[y][x];
+    const owner = tile.ownerId ? state.players[tile.ownerId] : undefined;
+    if (owner) {
+      owner.tiles = owner.tiles.filter(t => !(t.x === x && t.y === y));
+      owner.goldRate -= TERRAIN_INFO[tile.terrain].goldRate;
+      ownerIds.add(owner.id);
+    }
+
+    // The construct stopped working when the tile was cut off, so there's nothing to take away
+    delete state.unsupplied[tileKey];
+    tile.ownerId = null;
+    tile.color = null;
+    tile.construct = null;
+    tile.defenseBonus = 0;
+  });
+
+  updateSupplyInPlace(state, Array.from(ownerIds));
+};
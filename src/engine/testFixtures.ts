@@ -0,0 +1,44 @@
+import { DisconnectPolicy, Faction, GameAction, GameState, MatchSettings, Player } from '../types';
+import { applyAction, initializeGameState } from './engine';
+
+// Shared setup for the engine and sync tests
+
+// A ready lobby player with an empty bank, plus whatever the test needs
+export const makePlayer = (id: string, changes: Partial<Player> = {}): Player => ({
+  id,
+  name: id,
+  isReady: true,
+  color: '#fff',
+  faction: Faction.HUMANS,
+  gold: 0,
+  units: 0,
+  goldRate: 1,
+  unitRate: 0,
+  tiles: [],
+  ...changes
+});
+
+// A game started at time 0 between the given players, a and b by default
+export const startGame = (
+  players: Record<string, Partial<Player>> = { a: {}, b: {} },
+  disconnectPolicy?: DisconnectPolicy,
+  settings?: MatchSettings
+): GameState => initializeGameState(
+  Object.fromEntries(Object.entries(players).map(([id, changes]) => [id, makePlayer(id, changes)])),
+  0,
+  disconnectPolicy,
+  settings
+);
+
+// The same game with every tile on plain terrain, so terrain changes nothing
+export const onPlains = (state: GameState): GameState => ({
+  ...state,
+  grid: state.grid.map(row => row.map(tile => ({ ...tile, terrain: 'plains' as const })))
+});
+
+// Apply an action the test expects the rules to allow
+export const act = (state: GameState, action: GameAction, actorId: string): GameState => {
+  const result = applyAction(state, action, actorId);
+  if (!result.ok) throw new Error(result.reason);
+  return result.state;
+};
@@ -0,0 +1,87 @@
+import { DEFAULT_MATCH_SETTINGS, GameState, MatchSettings, Player } from '../types';
+import { advanceTo, applyAction, tick } from './engine';
+import { forfeitPlayer } from './presence';
+import { startGame } from './testFixtures';
+import { getDominationTiles, getHillTile } from './victory';
+
+// Nobody earns anything unless the test says so
+const smallMap = (settings: Partial<MatchSettings> = {}): GameState =>
+  startGame({ a: { goldRate: 0 }, b: { goldRate: 0 } }, 'freeze', { ...DEFAULT_MATCH_SETTINGS, gridSize: 12, ...settings });
+
+const withPlayer = (state: GameState, playerId: string, changes: Partial<Player>): GameState => ({
+  ...state,
+  players: { ...state.players, [playerId]: { ...state.players[playerId], ...changes } }
+});
+
+test('an economic match ends as soon as someone reaches the gold target', () => {
+  const state = withPlayer(smallMap({ winCondition: 'economic', goldTarget: 100 }), 'a', { gold: 99.95, goldRate: 1 });
+  const next = tick(state);
+
+  expect(next.gameOver).toBe(true);
+  expect(next.winner).toBe('a');
+  expect(next.outcome).toEqual({ reason: 'economic', winningTeam: null, tiedPlayerIds: [] });
+});
+
+test('a domination match ends when a claim reaches the required share', () => {
+  // A plain 12x12 map at 25% is 36 tiles
+  const game = smallMap({ winCondition: 'domination', dominationPercent: 25 });
+  const plain = { ...game, grid: game.grid.map(row => row.map(tile => ({ ...tile, terrain: 'plains' as const }))) };
+  const tiles = Array.from({ length: 35 }, (_, i) => ({ x: i % 6, y: Math.floor(i / 6) }));
+  const state = withPlayer(plain, 'a', { tiles, gold: 1000 });
+  expect(getDominationTiles(state)).toBe(36);
+  const result = applyAction(state, { type: 'CLAIM_TILE', x: 5, y: 5 }, 'a');
+  if (!result.ok) throw new Error(result.reason);
+
+  expect(result.state.winner).toBe('a');
+  expect(result.state.outcome?.reason).toBe('domination');
+});
+
+test('the hill has to be held without interruption', () => {
+  const { x, y } = getHillTile({ ...DEFAULT_MATCH_SETTINGS, gridSize: 12 });
+  let state = smallMap({ winCondition: 'hill', hillHoldMs: 1000 });
+  state = withPlayer(state, 'a', { tiles: [...state.players.a.tiles, { x: x - 1, y }], gold: 100 });
+
+  const claimed = applyAction(state, { type: 'CLAIM_TILE', x, y }, 'a');
+  if (!claimed.ok) throw new Error(claimed.reason);
+  expect(claimed.state.hill).toEqual({ holderId: 'a', sinceTick: 0 });
+
+  expect(advanceTo(claimed.state, 9).gameOver).toBe(false);
+  const held = advanceTo(claimed.state, 10);
+  expect(held.winner).toBe('a');
+  expect(held.outcome?.reason).toBe('hill');
+});
+
+test('time running out breaks ties on gold, then declares a draw', () => {
+  const end = DEFAULT_MATCH_SETTINGS.durationMs / 100;
+
+  const richer = withPlayer(smallMap(), 'b', { gold: 5 });
+  expect(advanceTo(richer, end).winner).toBe('b');
+
+  const level = advanceTo(smallMap(), end);
+  expect(level.gameOver).toBe(true);
+  expect(level.winner).toBeNull();
+  expect(level.outcome).toEqual({ reason: 'timeout', winningTeam: null, tiedPlayerIds: ['a', 'b'] });
+});
+
+test('teams win together once every other team is gone', () => {
+  const settings = { ...DEFAULT_MATCH_SETTINGS, gridSize: 12, teamMode: true };
+  const players = { a: { team: 1, goldRate: 0 }, b: { team: 2, goldRate: 0 }, c: { team: 1, goldRate: 0 } };
+  const state = startGame(players, 'freeze', settings);
+  expect(state.gameOver).toBe(false);
+
+  const next = forfeitPlayer(state, 'b');
+  expect(next.winner).toBeNull();
+  expect(next.outcome).toEqual({ reason: 'elimination', winningTeam: 1, tiedPlayerIds: [] });
+});
+
+test('team scores are added up for the win condition', () => {
+  const settings = { ...DEFAULT_MATCH_SETTINGS, gridSize: 12, teamMode: true, winCondition: 'economic' as const, goldTarget: 100 };
+  const players = {
+    a: { team: 1, gold: 60, goldRate: 0 },
+    b: { team: 2, gold: 90, goldRate: 0 },
+    c: { team: 1, gold: 39.95 }
+  };
+  const next = tick(startGame(players, 'freeze', settings));
+
+  expect(next.outcome).toEqual({ reason: 'economic', winningTeam: 1, tiedPlayerIds: [] });
+});
@@ -0,0 +1,126 @@
+import { GameState, MatchSettings, Player, TERRAIN_INFO, TICK_MS, VictoryReason } from '../types';
+
+// The objective in king-of-the-hill matches
+export const getHillTile = (settings: MatchSettings): { x: number; y: number } => ({
+  x: Math.floor(settings.gridSize / 2),
+  y: Math.floor(settings.gridSize / 2)
+});
+
+export const getHillHoldTicks = (settings: MatchSettings): number => Math.round(settings.hillHoldMs / TICK_MS);
+
+// Tiles a player needs to win a domination match. Mountains can't be held, so they
+// don't count towards the map.
+export const getDominationTiles = (state: Pick<GameState, 'grid' | 'settings'>): number => {
+  const claimable = state.grid.flat().filter(tile => TERRAIN_INFO[tile.terrain].claimable).length;
+  return Math.ceil(claimable * state.settings.dominationPercent / 100);
+};
+
+// Players who win or lose together: a team in a team match, otherwise a single player
+interface Side {
+  team: number | null;
+  players: Player[];
+}
+
+const groupSides = (state: GameState, players: Player[]): Side[] => {
+  const sides: Side[] = [];
+  players.forEach(player => {
+    const team = state.settings.teamMode ? player.team ?? null : null;
+    const side = team !== null ? sides.find(s => s.team === team) : undefined;
+    if (side) side.players.push(player);
+    else sides.push({ team, players: [player] });
+  });
+  return sides;
+};
+
+const sum = (players: Player[], value: (player: Player) => number) =>
+  players.reduce((total, player) => total + value(player), 0);
+
+// Players whose territory was frozen or forfeited after a disconnect can't win
+export const canWin = (state: GameState, playerId: string): boolean => {
+  const status = state.presence[playerId]?.status;
+  return status !== 'frozen' && status !== 'forfeited';
+};
+
+// Sides still able to win. Frozen and forfeited teammates don't count towards their team.
+const contenders = (state: GameState): Side[] =>
+  groupSides(state, Object.values(state.players).filter(player => player.tiles.length > 0 && canWin(state, player.id)));
+
+// Scores compared in order until one side comes out ahead, added up across a team.
+// Economic matches rank by gold first, every other condition by territory.
+const rankingScores = (state: GameState, side: Side): number[] => {
+  const gold = sum(side.players, player => player.gold);
+  const tiles = sum(side.players, player => player.tiles.length);
+  const units = sum(side.players, player => player.units);
+  const primary = state.settings.winCondition === 'economic' ? gold : tiles;
+  return [primary, gold, tiles, units];
+};
+
+// The best of the given sides. More than one means they're level on every score.
+const rankLeaders = (state: GameState, sides: Side[]): Side[] => {
+  let leaders: Side[] = [];
+  let best: number[] = [];
+
+  sides.forEach(side => {
+    const scores = rankingScores(state, side);
+    const index = scores.findIndex((score, i) => score !== best[i]);
+
+    if (leaders.length === 0 || (index !== -1 && scores[index] > best[index])) {
+      best = scores;
+      leaders = [side];
+    } else if (index === -1) {
+      leaders.push(side);
+    }
+  });
+
+  return leaders;
+};
+
+const meetsWinCondition = (state: GameState, side: Side): boolean => {
+  const { settings, hill } = state;
+  switch (settings.winCondition) {
+    case 'domination':
+      return sum(side.players, player => player.tiles.length) >= getDominationTiles(state);
+    case 'economic':
+      return sum(side.players, player => player.gold) >= settings.goldTarget;
+    case 'hill':
+      return !!hill && side.players.some(player => player.id === hill.holderId) &&
+        state.tick - hill.sinceTick >= getHillHoldTicks(settings);
+    default:
+      return false;
+  }
+};
+
+const endInPlace = (state: GameState, reason: VictoryReason, leaders: Side[]) => {
+  const [winner] = leaders.length === 1 ? leaders : [];
+  state.gameOver = true;
+  state.winner = winner && winner.team === null ? winner.players[0].id : null;
+  state.outcome = {
+    reason,
+    winningTeam: winner ? winner.team : null,
+    tiedPlayerIds: leaders.length > 1 ? leaders.flatMap(side => side.players.map(player => player.id)) : []
+  };
+};
+
+// Start the hill's clock over whenever the centre tile changes hands
+export const updateHillInPlace = (state: GameState) => {
+  if (!state.hill) return;
+
+  const { x, y } = getHillTile(state.settings);
+  const holderId = state.grid[y][x].ownerId;
+  if (holderId !== state.hill.holderId) state.hill = { holderId, sinceTick: state.tick };
+};
+
+// End the game if someone has won. Players who reach the win condition in the same
+// step are ranked against each other, as is everyone when time runs out.
+export const settleMatchInPlace = (state: GameState, timedOut: boolean) => {
+  if (state.gameOver) return;
+
+  // The last side holding tiles wins by elimination
+  const survivors = groupSides(state, Object.values(state.players).filter(player => player.tiles.length > 0));
+  if (survivors.length === 1) return endInPlace(state, 'elimination', survivors);
+
+  const qualified = contenders(state).filter(player => meetsWinCondition(state, player));
+  if (qualified.length > 0) return endInPlace(state, state.settings.winCondition as VictoryReason, rankLeaders(state, qualified));
+
+  if (timedOut) endInPlace(state, 'timeout', rankLeaders(state, contenders(state)));
+};
@@ -0,0 +1,4 @@
+export { PROTOCOL_VERSION } from './messages';
+export type { PeerMessage, PeerMessageType, PeerPayloads, WireMessage } from './messages';
+export { encodeMessage, decodeMessage, validateMessage, isLobbyListing, isSignalingClientMessage, isSignalingServerMessage } from './validate';
+export type { DecodeResult } from './validate';
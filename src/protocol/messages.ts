@@ -0,0 +1,72 @@
+import {
+  ActionIntent,
+  ActionRejection,
+  Faction,
+  LobbyState,
+  Player
+} from '../types';
+import { StateDelta, StateSnapshot } from '../sync';
+
+// Bumped whenever a payload changes shape; peers drop messages from other versions
+export const PROTOCOL_VERSION = 14;
+
+// Payload carried by each message type
+export interface PeerPayloads {
+  // Lobby
+  HOST_HELLO: null; // sent by the host to each peer that connects, so joiners know who to ask
+  JOIN_LOBBY: { player: Player; sessionToken: string; password: string }; // empty without a password
+  JOIN_REJECTED: { reason: string };
+  LOBBY_STATE: LobbyState;
+  READY_STATE: boolean;
+  CHANGE_FACTION: { faction: Faction };
+  CHANGE_TEAM: { team: number | null }; // null to play without a team
+  START_GAME: StateSnapshot;
+  GAME_STATE: null; // the host went back to the lobby
+
+  // Intents, validated by the host
+  CLAIM_TILE: ActionIntent;
+  ATTACK_TILE: ActionIntent;
+  BUILD_CONSTRUCT: ActionIntent;
+  UPGRADE_CONSTRUCT: ActionIntent;
+  CONVERT_CONSTRUCT: ActionIntent;
+  DEMOLISH_CONSTRUCT: ActionIntent;
+  USE_ABILITY: ActionIntent;
+  ACTION_REJECTED: ActionRejection;
+
+  // State sync
+  STATE_DELTA: StateDelta;
+  STATE_SNAPSHOT: StateSnapshot;
+  REQUEST_SNAPSHOT: null;
+  CLOCK_PING: { sentAt: number };
+  CLOCK_PONG: { sentAt: number; hostTime: number };
+
+  // Presence, host migration and rejoining
+  HEARTBEAT: null;
+  HOST_CHANGED: {
+    previousHost: string;
+    previousHostName: string;
+    lobbyState: LobbyState;
+    snapshot: StateSnapshot | null;
+  };
+  REJOIN: { sessionToken: string };
+  REJOIN_ACCEPTED: { lobbyState: LobbyState; snapshot: StateSnapshot | null };
+  REJOIN_REJECTED: { reason: string };
+
+  // Moderation
+  KICK_VOTE: { suspectId: string };
+  KICKED: { banned: boolean }; // sent by the host to a player it removed
+}
+
+export type PeerMessageType = keyof PeerPayloads;
+
+export type PeerMessage<T extends PeerMessageType = PeerMessageType> = {
+  [K in T]: {
+    type: K;
+    payload: PeerPayloads[K];
+    senderId: string;
+    targetId?: string; // set for direct messages, omitted for broadcasts
+  };
+}[T];
+
+// What actually goes over a transport
+export type WireMessage = PeerMessage & { version: number };
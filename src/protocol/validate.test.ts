@@ -0,0 +1,60 @@
+import { Faction } from '../types';
+import { PeerMessage, PROTOCOL_VERSION } from './messages';
+import { decodeMessage, encodeMessage, isSignalingServerMessage, validateMessage } from './validate';
+
+const changeFaction: PeerMessage = { type: 'CHANGE_FACTION', payload: { faction: Faction.ROBOTS }, senderId: 'p1' };
+
+test('round-trips a valid message through the wire format', () => {
+  const raw = encodeMessage(changeFaction);
+  expect(JSON.parse(raw).version).toBe(PROTOCOL_VERSION);
+  expect(decodeMessage(raw)).toEqual(changeFaction);
+});
+
+test('rejects unknown types, other versions and malformed payloads with a reason', () => {
+  const wire = JSON.parse(encodeMessage(changeFaction));
+
+  expect(validateMessage({ ...wire, type: 'SELF_DESTRUCT' }))
+    .toEqual({ ok: false, reason: 'unknown message type SELF_DESTRUCT' });
+  expect(validateMessage({ ...wire, version: 0 }))
+    .toEqual({ ok: false, reason: `protocol version 0, expected ${PROTOCOL_VERSION}` });
+  expect(validateMessage({ ...wire, payload: { faction: 'PIRATES' } }))
+    .toEqual({ ok: false, reason: 'CHANGE_FACTION payload faction: expected one of HUMANS, ALIENS, ROBOTS' });
+});
+
+test('checks that an intent carries the action its type names', () => {
+  const intent = { seq: 1, baseRevision: 0, issuedAtTick: 3, action: { type: 'DEMOLISH_CONSTRUCT', x: 1, y: 2 } };
+  const wire = { version: PROTOCOL_VERSION, type: 'CLAIM_TILE', payload: intent, senderId: 'p1' };
+
+  expect(validateMessage(wire)).toEqual({ ok: false, reason: 'CLAIM_TILE payload action does not match message type' });
+  expect(validateMessage({ ...wire, type: 'DEMOLISH_CONSTRUCT' }).ok).toBe(true);
+});
+
+test('only accepts whole coordinates in intents', () => {
+  const intent = { seq: 1, baseRevision: 0, issuedAtTick: 3, action: { type: 'CLAIM_TILE', x: 0.5, y: 3 } };
+  const wire = { version: PROTOCOL_VERSION, type: 'CLAIM_TILE', payload: intent, senderId: 'p1' };
+
+  expect(validateMessage(wire)).toEqual({ ok: false, reason: 'CLAIM_TILE payload action: x: expected integer' });
+});
+
+test('only accepts the teams there are', () => {
+  const changeTeam = (team: unknown) => ({ version: PROTOCOL_VERSION, type: 'CHANGE_TEAM', payload: { team }, senderId: 'p1' });
+
+  expect(validateMessage(changeTeam(2)).ok).toBe(true);
+  expect(validateMessage(changeTeam(null)).ok).toBe(true);
+  expect(validateMessage(changeTeam(99)).ok).toBe(false);
+  expect(validateMessage(changeTeam(1.5)).ok).toBe(false);
+});
+
+test('logs and drops data that is not JSON', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  expect(decodeMessage('{not json')).toBeNull();
+  expect(warn).toHaveBeenCalledWith('Dropped peer message: invalid JSON');
+  warn.mockRestore();
+});
+
+test('checks signaling server messages before the client acts on them', () => {
+  expect(isSignalingServerMessage({ type: 'peer-joined', peerId: 'p2' })).toBe(true);
+  expect(isSignalingServerMessage({ type: 'error', reason: 'LOBBY_FULL' })).toBe(true);
+  expect(isSignalingServerMessage({ type: 'error', reason: 'SOMETHING_ELSE' })).toBe(false);
+  expect(isSignalingServerMessage({ type: 'joined', lobbyId: 'abc', hostId: 'p1', peerIds: 'p1' })).toBe(false);
+});
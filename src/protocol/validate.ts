@@ -0,0 +1,353 @@
+import { ConstructType, Faction, LobbyListing, REJECTION_MESSAGES, TEAM_COUNT, TERRAIN_INFO } from '../types';
+import { SIGNALING_ERROR_MESSAGES, SignalingClientMessage, SignalingServerMessage } from '../transport/signalingProtocol';
+import { PeerMessage, PeerMessageType, PROTOCOL_VERSION, WireMessage } from './messages';
+
+// Each check returns a description of the first problem it finds, or null
+type Check = (value: unknown) => string | null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (expected: string): Check => value =>
+  typeof value === expected ? null : `expected ${expected}`;
+
+const str = typeOf('string');
+const num: Check = value => (typeof value === 'number' && Number.isFinite(value) ? null : 'expected number');
+// Grid coordinates and unit counts index arrays, so fractions are as bad as strings
+const int: Check = value => (Number.isInteger(value) ? null : 'expected integer');
+const bool = typeOf('boolean');
+const team: Check = value =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= TEAM_COUNT ? null : `expected team 1 to ${TEAM_COUNT}`;
+const isNull: Check = value => (value === null ? null : 'expected null');
+
+const nullable = (check: Check): Check => value => (value === null ? null : check(value));
+const optional = (check: Check): Check => value => (value === undefined ? null : check(value));
+
+const oneOf = (options: readonly unknown[]): Check => value =>
+  options.includes(value) ? null : `expected one of ${options.join(', ')}`;
+
+const arrayOf = (check: Check): Check => value => {
+  if (!Array.isArray(value)) return 'expected array';
+  for (let i = 0; i < value.length; i++) {
+    const problem = check(value[i]);
+    if (problem) return `[${i}]: ${problem}`;
+  }
+  return null;
+};
+
+const recordOf = (check: Check): Check => value => {
+  if (!isRecord(value)) return 'expected object';
+  for (const key of Object.keys(value)) {
+    const problem = check(value[key]);
+    if (problem) return `${key}: ${problem}`;
+  }
+  return null;
+};
+
+// Extra keys are allowed so newer optional fields don't break older peers
+const shape = (fields: Record<string, Check>): Check => value => {
+  if (!isRecord(value)) return 'expected object';
+  for (const key of Object.keys(fields)) {
+    const problem = fields[key](value[key]);
+    if (problem) return `${key}: ${problem}`;
+  }
+  return null;
+};
+
+const anyObject: Check = value => (isRecord(value) ? null : 'expected object');
+
+const coord = shape({ x: int, y: int });
+
+const player = shape({
+  id: str,
+  name: str,
+  isReady: bool,
+  color: str,
+  faction: oneOf(Object.values(Faction)),
+  gold: num,
+  units: num,
+  goldRate: num,
+  unitRate: num,
+  tiles: arrayOf(coord),
+  team: optional(team)
+});
+
+const tile = shape({
+  x: int,
+  y: int,
+  terrain: oneOf(Object.keys(TERRAIN_INFO)),
+  ownerId: nullable(str),
+  color: nullable(str),
+  construct: nullable(shape({ type: oneOf(Object.values(ConstructType)), ownerId: nullable(str), level: num, faction: oneOf(Object.values(Faction)) })),
+  defenseBonus: num,
+  claimedAtRevision: optional(num)
+});
+
+const disconnectPolicy = oneOf(['freeze', 'bot', 'forfeit']);
+
+const matchSettings = shape({
+  gridSize: num,
+  durationMs: num,
+  maxPlayers: num,
+  startingGold: num,
+  claimCostMultiplier: num,
+  constructCostMultiplier: num,
+  constructCapture: oneOf(['capture', 'destroy']),
+  winCondition: oneOf(['territory', 'domination', 'elimination', 'economic', 'hill']),
+  teamMode: bool,
+  dominationPercent: num,
+  goldTarget: num,
+  hillHoldMs: num,
+  mapSeed: num
+});
+
+const lobbyState = shape({
+  lobbyId: str,
+  name: str,
+  isPublic: bool,
+  createdAt: num,
+  players: recordOf(player),
+  host: str,
+  joinOrder: arrayOf(str),
+  sessions: recordOf(str),
+  disconnectPolicy,
+  settings: matchSettings,
+  passwordHash: nullable(str),
+  hasPassword: bool,
+  locked: bool,
+  banned: arrayOf(str),
+  gameStarted: bool
+});
+
+const gameState = shape({
+  grid: arrayOf(arrayOf(tile)),
+  players: recordOf(player),
+  startTime: num,
+  tick: num,
+  revision: num,
+  lastIntentSeq: recordOf(num),
+  presence: recordOf(shape({
+    status: oneOf(['connected', 'reconnecting', 'frozen', 'bot', 'forfeited']),
+    disconnectedAtTick: nullable(num)
+  })),
+  disconnectPolicy,
+  settings: matchSettings,
+  hill: nullable(shape({ holderId: nullable(str), sinceTick: num })),
+  abilities: recordOf(shape({ readyAtTick: num, activeUntilTick: num })),
+  battles: arrayOf(shape({
+    tick: num,
+    attackerId: str,
+    defenderId: str,
+    x: num,
+    y: num,
+    committed: num,
+    attack: num,
+    defense: num,
+    chance: num,
+    captured: bool,
+    attackerLosses: num,
+    defenderLosses: num
+  })),
+  capitals: recordOf(shape({ x: num, y: num })),
+  unsupplied: recordOf(num),
+  gameOver: bool,
+  winner: nullable(str),
+  outcome: nullable(shape({
+    reason: oneOf(['elimination', 'domination', 'economic', 'hill', 'timeout']),
+    winningTeam: nullable(num),
+    tiedPlayerIds: arrayOf(str)
+  }))
+});
+
+const snapshot = shape({ seq: num, state: gameState });
+
+const gameAction: Check = value => {
+  if (!isRecord(value)) return 'expected object';
+  switch (value.type) {
+    case 'CLAIM_TILE':
+    case 'UPGRADE_CONSTRUCT':
+    case 'CONVERT_CONSTRUCT':
+    case 'DEMOLISH_CONSTRUCT':
+      return shape({ x: int, y: int })(value);
+    case 'ATTACK_TILE':
+      return shape({ x: int, y: int, units: int })(value);
+    case 'BUILD_CONSTRUCT':
+      return shape({ x: int, y: int, constructType: oneOf(Object.values(ConstructType)) })(value);
+    case 'USE_ABILITY':
+      return null;
+    default:
+      return `unknown action ${String(value.type)}`;
+  }
+};
+
+// The action has to match the message it arrived in
+const intentFor = (type: string): Check => value => {
+  const problem = shape({ seq: num, action: gameAction, baseRevision: num, issuedAtTick: num })(value);
+  if (problem) return problem;
+  return (value as { action: { type: string } }).action.type === type ? null : 'action does not match message type';
+};
+
+const PAYLOAD_CHECKS: Record<PeerMessageType, Check> = {
+  HOST_HELLO: isNull,
+  JOIN_LOBBY: shape({ player, sessionToken: str, password: str }),
+  JOIN_REJECTED: shape({ reason: str }),
+  LOBBY_STATE: lobbyState,
+  READY_STATE: bool,
+  CHANGE_FACTION: shape({ faction: oneOf(Object.values(Faction)) }),
+  CHANGE_TEAM: shape({ team: nullable(team) }),
+  START_GAME: snapshot,
+  GAME_STATE: isNull,
+
+  CLAIM_TILE: intentFor('CLAIM_TILE'),
+  ATTACK_TILE: intentFor('ATTACK_TILE'),
+  BUILD_CONSTRUCT: intentFor('BUILD_CONSTRUCT'),
+  UPGRADE_CONSTRUCT: intentFor('UPGRADE_CONSTRUCT'),
+  CONVERT_CONSTRUCT: intentFor('CONVERT_CONSTRUCT'),
+  DEMOLISH_CONSTRUCT: intentFor('DEMOLISH_CONSTRUCT'),
+  USE_ABILITY: intentFor('USE_ABILITY'),
+  ACTION_REJECTED: shape({
+    action: gameAction,
+    reason: oneOf(Object.keys(REJECTION_MESSAGES)),
+    seq: optional(num),
+    contestedBy: optional(str)
+  }),
+
+  STATE_DELTA: shape({
+    seq: num,
+    tiles: arrayOf(tile),
+    players: arrayOf(shape({
+      id: str,
+      fields: anyObject,
+      tilesAdded: optional(arrayOf(coord)),
+      tilesRemoved: optional(arrayOf(coord))
+    })),
+    removedPlayerIds: arrayOf(str),
+    meta: anyObject
+  }),
+  STATE_SNAPSHOT: snapshot,
+  REQUEST_SNAPSHOT: isNull,
+  CLOCK_PING: shape({ sentAt: num }),
+  CLOCK_PONG: shape({ sentAt: num, hostTime: num }),
+
+  HEARTBEAT: isNull,
+  HOST_CHANGED: shape({
+    previousHost: str,
+    previousHostName: str,
+    lobbyState,
+    snapshot: nullable(snapshot)
+  }),
+  REJOIN: shape({ sessionToken: str }),
+  REJOIN_ACCEPTED: shape({ lobbyState, snapshot: nullable(snapshot) }),
+  REJOIN_REJECTED: shape({ reason: str }),
+
+  KICK_VOTE: shape({ suspectId: str }),
+  KICKED: shape({ banned: bool })
+};
+
+const lobbyListing = shape({
+  lobbyId: str,
+  name: str,
+  hostName: str,
+  playerCount: num,
+  maxPlayers: num,
+  factions: arrayOf(oneOf(Object.values(Faction))),
+  hasPassword: bool,
+  createdAt: num
+});
+
+// Listings come from other hosts through the lobby browser, outside of any lobby
+export const isLobbyListing = (value: unknown): value is LobbyListing => lobbyListing(value) === null;
+
+const signalingClientMessage: Check = value => {
+  if (!isRecord(value)) return 'expected object';
+  switch (value.type) {
+    case 'create-lobby':
+    case 'join-lobby':
+      return shape({ lobbyId: str, peerId: str, reconnectToken: optional(str) })(value);
+    case 'signal':
+      return shape({ targetId: str, data: anyObject })(value);
+    case 'publish-lobby':
+      return shape({ listing: nullable(lobbyListing) })(value);
+    case 'watch-lobbies':
+    case 'leave':
+      return null;
+    default:
+      return `unknown signaling message ${String(value.type)}`;
+  }
+};
+
+// What the signaling server accepts from its clients
+export const isSignalingClientMessage = (value: unknown): value is SignalingClientMessage =>
+  signalingClientMessage(value) === null;
+
+const signalingServerMessage: Check = value => {
+  if (!isRecord(value)) return 'expected object';
+  switch (value.type) {
+    case 'joined':
+      return shape({ lobbyId: str, hostId: str, peerIds: arrayOf(str), reconnectToken: str })(value);
+    case 'peer-joined':
+    case 'peer-left':
+      return shape({ peerId: str })(value);
+    case 'signal':
+      return shape({ fromId: str, data: anyObject })(value);
+    case 'lobby-list':
+      return shape({ lobbies: arrayOf(lobbyListing) })(value);
+    case 'error':
+      return shape({ reason: oneOf(Object.keys(SIGNALING_ERROR_MESSAGES)) })(value);
+    default:
+      return `unknown signaling message ${String(value.type)}`;
+  }
+};
+
+// What clients accept from the signaling server
+export const isSignalingServerMessage = (value: unknown): value is SignalingServerMessage =>
+  signalingServerMessage(value) === null;
+
+export type DecodeResult =
+  | { ok: true; message: PeerMessage }
+  | { ok: false; reason: string };
+
+// Check an incoming message against the schema for its type
+export const validateMessage = (value: unknown): DecodeResult => {
+  if (!isRecord(value)) return { ok: false, reason: 'not an object' };
+  if (value.version !== PROTOCOL_VERSION) {
+    return { ok: false, reason: `protocol version ${String(value.version)}, expected ${PROTOCOL_VERSION}` };
+  }
+  if (typeof value.senderId !== 'string') return { ok: false, reason: 'missing senderId' };
+  if (value.targetId !== undefined && typeof value.targetId !== 'string') {
+    return { ok: false, reason: 'invalid targetId' };
+  }
+
+  const type = value.type as PeerMessageType;
+  const check = typeof value.type === 'string' && Object.prototype.hasOwnProperty.call(PAYLOAD_CHECKS, type)
+    ? PAYLOAD_CHECKS[type]
+    : null;
+  if (!check) return { ok: false, reason: `unknown message type ${String(value.type)}` };
+
+  const problem = check(value.payload);
+  if (problem) return { ok: false, reason: `${type} payload ${problem}` };
+
+  const { version, ...message } = value as WireMessage;
+  return { ok: true, message: message as PeerMessage };
+};
+
+export const encodeMessage = (message: PeerMessage): string =>
+  JSON.stringify({ ...message, version: PROTOCOL_VERSION });
+
+// Parse and validate raw transport data. Malformed messages are logged and dropped.
+export const decodeMessage = (raw: string): PeerMessage | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    console.warn('Dropped peer message: invalid JSON');
+    return null;
+  }
+
+  const result = validateMessage(value);
+  if (!result.ok) {
+    console.warn(`Dropped peer message: ${result.reason}`);
+    return null;
+  }
+  return result.message;
+};
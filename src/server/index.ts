@@ -0,0 +1,13 @@
+import { createSignalingServer } from './signalingServer';
+
+const port = Number(process.env.PORT) || 8081;
+
+const { httpServer, close } = createSignalingServer();
+
+httpServer.listen(port, () => {
+  console.log(`Signaling server listening on port ${port}`);
+});
+
+process.on('SIGTERM', () => {
+  close().then(() => process.exit(0));
+});
@@ -0,0 +1,49 @@
+import { MAX_PLAYERS } from '../types';
+import { EMPTY_LOBBY_TTL_MS, LobbyRegistry } from './lobbyRegistry';
+
+test('enforces MAX_PLAYERS but lets a member rejoin', () => {
+  const registry = new LobbyRegistry();
+  registry.create('abc123', 'p0', 0);
+  for (let i = 1; i < MAX_PLAYERS; i++) {
+    expect(registry.join('abc123', `p${i}`).ok).toBe(true);
+  }
+
+  expect(registry.join('abc123', 'late')).toEqual({ ok: false, reason: 'LOBBY_FULL' });
+  expect(registry.join('abc123', 'p1').ok).toBe(true);
+});
+
+test('expires lobbies that stay empty past the TTL', () => {
+  const registry = new LobbyRegistry();
+  registry.create('abc123', 'host', 0);
+  registry.leave('abc123', 'host', 1000);
+
+  expect(registry.sweep(1000 + EMPTY_LOBBY_TTL_MS - 1)).toEqual([]);
+
+  // Rejoining in time keeps it alive
+  registry.join('abc123', 'host');
+  registry.leave('abc123', 'host', 5000);
+  expect(registry.sweep(5000 + EMPTY_LOBBY_TTL_MS)).toEqual(['abc123']);
+  expect(registry.get('abc123')).toBeUndefined();
+});
+
+test('lists public lobbies while someone is in them', () => {
+  const registry = new LobbyRegistry();
+  const listing = {
+    lobbyId: 'spoofed',
+    name: 'Open game',
+    hostName: 'Ann',
+    playerCount: 1,
+    maxPlayers: MAX_PLAYERS,
+    factions: [],
+    hasPassword: false,
+    createdAt: 0
+  };
+  registry.create('abc123', 'host', 0);
+
+  expect(registry.publish('abc123', 'stranger', listing)).toBe(false);
+  expect(registry.publish('abc123', 'host', listing)).toBe(true);
+  expect(registry.listings()).toEqual([{ ...listing, lobbyId: 'abc123' }]);
+
+  registry.leave('abc123', 'host', 1000);
+  expect(registry.listings()).toEqual([]);
+});
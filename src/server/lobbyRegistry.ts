@@ -0,0 +1,98 @@
+import { LobbyListing, MAX_PLAYERS } from '../types';
+import { SignalingErrorReason } from '../transport/signalingProtocol';
+
+// How long a lobby survives with nobody connected before it is dropped
+export const EMPTY_LOBBY_TTL_MS = 60 * 1000;
+
+export interface LobbyRecord {
+  lobbyId: string;
+  hostId: string;
+  members: string[]; // in join order
+  createdAt: number;
+  emptySince: number | null;
+  listing: LobbyListing | null; // set while the lobby is public
+}
+
+export type RegistryResult =
+  | { ok: true; lobby: LobbyRecord }
+  | { ok: false; reason: SignalingErrorReason };
+
+// Lobby membership bookkeeping for the signaling server, independent of sockets
+export class LobbyRegistry {
+  private lobbies = new Map<string, LobbyRecord>();
+
+  create(lobbyId: string, peerId: string, now: number): RegistryResult {
+    if (this.lobbies.has(lobbyId)) return { ok: false, reason: 'LOBBY_EXISTS' };
+
+    const lobby: LobbyRecord = {
+      lobbyId,
+      hostId: peerId,
+      members: [peerId],
+      createdAt: now,
+      emptySince: null,
+      listing: null
+    };
+    this.lobbies.set(lobbyId, lobby);
+    return { ok: true, lobby };
+  }
+
+  join(lobbyId: string, peerId: string): RegistryResult {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { ok: false, reason: 'LOBBY_NOT_FOUND' };
+
+    if (!lobby.members.includes(peerId)) {
+      if (lobby.members.length >= MAX_PLAYERS) return { ok: false, reason: 'LOBBY_FULL' };
+      lobby.members.push(peerId);
+    }
+
+    lobby.emptySince = null;
+    return { ok: true, lobby };
+  }
+
+  leave(lobbyId: string, peerId: string, now: number) {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return;
+
+    lobby.members = lobby.members.filter(id => id !== peerId);
+    if (lobby.members.length === 0) {
+      lobby.emptySince = now;
+    }
+  }
+
+  // Any member may update the listing, since the host can change during a game
+  publish(lobbyId: string, peerId: string, listing: LobbyListing | null): boolean {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby || !lobby.members.includes(peerId)) return false;
+
+    lobby.listing = listing && { ...listing, lobbyId };
+    return true;
+  }
+
+  // Public lobbies that somebody is still in, oldest first
+  listings(): LobbyListing[] {
+    return Array.from(this.lobbies.values())
+      .filter(lobby => lobby.listing && lobby.members.length > 0)
+      .map(lobby => lobby.listing as LobbyListing)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(lobbyId: string): LobbyRecord | undefined {
+    return this.lobbies.get(lobbyId);
+  }
+
+  // Drop lobbies that have been empty for too long; returns the removed ids
+  sweep(now: number): string[] {
+    const expired: string[] = [];
+    this.lobbies.forEach((lobby, lobbyId) => {
+      if (lobby.emptySince !== null && now - lobby.emptySince >= EMPTY_LOBBY_TTL_MS) {
+        expired.push(lobbyId);
+      }
+    });
+    expired.forEach(lobbyId => this.lobbies.delete(lobbyId));
+    return expired;
+  }
+
+  get size() {
+    return this.lobbies.size;
+  }
+}
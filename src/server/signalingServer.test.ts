@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { LobbyListing } from '../types';
+import { SignalingEvents } from '../transport/types';
+import { WebSocketLobbyBrowser } from '../transport/webSocketLobbyBrowser';
+import { WebSocketSignaling, WebSocketLike } from '../transport/webSocketSignaling';
+import { createSignalingServer, SignalingServer } from './signalingServer';
+
+const recordEvents = () => {
+  const log: string[] = [];
+  const events: SignalingEvents = {
+    onPeerJoined: (peerId, initiator) => log.push(`joined:${peerId}:${initiator}`),
+    onPeerLeft: peerId => log.push(`left:${peerId}`),
+    onSignal: (fromId, data) => log.push(`signal:${fromId}:${data.type}`),
+    onPeerIdentified: () => undefined
+  };
+  return { log, events };
+};
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+let server: SignalingServer;
+let url: string;
+
+const connectClient = () => {
+  const signaling = new WebSocketSignaling(url, socketUrl => new WebSocket(socketUrl) as unknown as WebSocketLike);
+  const recorded = recordEvents();
+  signaling.listen(recorded.events);
+  return { signaling, log: recorded.log };
+};
+
+beforeEach(async () => {
+  server = createSignalingServer();
+  await new Promise<void>(resolve => server.httpServer.listen(0, resolve));
+  url = `ws://localhost:${(server.httpServer.address() as AddressInfo).port}`;
+});
+
+afterEach(() => server.close());
+
+test('creates a lobby, admits a guest and relays signals', async () => {
+  const host = connectClient();
+  const guest = connectClient();
+
+  await host.signaling.join('abc123', 'host', 'create');
+  await guest.signaling.join('abc123', 'guest', 'join');
+  await waitFor(() => host.log.length > 0);
+
+  // The newcomer initiates, the existing peer waits for the offer
+  expect(guest.log).toEqual(['joined:host:true']);
+  expect(host.log).toEqual(['joined:guest:false']);
+
+  guest.signaling.sendSignal('host', { type: 'offer', sdp: 'v=0' });
+  await waitFor(() => host.log.length > 1);
+  expect(host.log[1]).toBe('signal:guest:offer');
+
+  guest.signaling.leave();
+  await waitFor(() => host.log.length > 2);
+  expect(host.log[2]).toBe('left:guest');
+  host.signaling.leave();
+});
+
+test('rejects unknown lobbies and duplicate codes', async () => {
+  const host = connectClient();
+  const guest = connectClient();
+
+  await expect(guest.signaling.join('nope00', 'guest', 'join')).rejects.toThrow('Lobby not found');
+
+  await host.signaling.join('abc123', 'host', 'create');
+  await expect(guest.signaling.join('abc123', 'guest', 'create')).rejects.toThrow('Lobby code already in use');
+
+  host.signaling.leave();
+  guest.signaling.leave();
+});
+
+test('lists public lobbies for browsers until they are taken down', async () => {
+  const host = connectClient();
+  const browser = new WebSocketLobbyBrowser(url, socketUrl => new WebSocket(socketUrl) as unknown as WebSocketLike);
+  let listings: LobbyListing[] = [];
+  const unsubscribe = browser.subscribe(update => { listings = update; });
+
+  await host.signaling.join('abc123', 'host', 'create');
+  const listing: LobbyListing = {
+    lobbyId: 'abc123',
+    name: 'Open game',
+    hostName: 'Ann',
+    playerCount: 1,
+    maxPlayers: 3,
+    factions: [],
+    hasPassword: false,
+    createdAt: 1000
+  };
+  host.signaling.publishListing(listing);
+  await waitFor(() => listings.length > 0);
+  expect(listings).toEqual([listing]);
+
+  host.signaling.leave();
+  await waitFor(() => listings.length === 0);
+  expect(listings).toEqual([]);
+  unsubscribe();
+});
+
+// A bare socket, for speaking to the server without the client's help
+const connectRaw = async () => {
+  const socket = new WebSocket(url);
+  const received: Record<string, unknown>[] = [];
+  socket.on('message', data => received.push(JSON.parse(data.toString())));
+  await new Promise(resolve => socket.once('open', resolve));
+  return { socket, received, send: (message: unknown) => socket.send(JSON.stringify(message)) };
+};
+
+test('only lets the holder of its reconnect token take over a connected id', async () => {
+  const host = await connectRaw();
+  host.send({ type: 'create-lobby', lobbyId: 'abc123', peerId: 'host' });
+  await waitFor(() => host.received.length > 0);
+  const { reconnectToken } = host.received[0] as { reconnectToken: string };
+
+  const impostor = connectClient();
+  await expect(impostor.signaling.join('abc123', 'host', 'join'))
+    .rejects.toThrow('Someone is already connected with this id');
+
+  const reconnected = await connectRaw();
+  reconnected.send({ type: 'join-lobby', lobbyId: 'abc123', peerId: 'host', reconnectToken });
+  await waitFor(() => reconnected.received.length > 0);
+  expect(reconnected.received[0]).toMatchObject({ type: 'joined', lobbyId: 'abc123' });
+
+  impostor.signaling.leave();
+  host.socket.close();
+  reconnected.socket.close();
+});
+
+test('refuses messages with missing or malformed fields', async () => {
+  const client = await connectRaw();
+  client.send({ type: 'join-lobby', lobbyId: 'abc123' });
+  client.send({ type: 'signal', targetId: 7, data: {} });
+  await waitFor(() => client.received.length > 1);
+
+  expect(client.received).toEqual([
+    { type: 'error', reason: 'BAD_REQUEST' },
+    { type: 'error', reason: 'BAD_REQUEST' }
+  ]);
+  client.socket.close();
+});
@@ -0,0 +1,217 @@
+import { randomBytes } from 'crypto';
+import http from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { isSignalingClientMessage } from '../protocol/validate';
+import { SignalingClientMessage, SignalingServerMessage } from '../transport/signalingProtocol';
+import { LobbyRegistry } from './lobbyRegistry';
+
+// How often dead sockets are reaped and empty lobbies expired
+const SWEEP_INTERVAL_MS = 15 * 1000;
+
+interface Connection {
+  socket: WebSocket;
+  peerId: string | null;
+  lobbyId: string | null;
+  alive: boolean;
+}
+
+export interface SignalingServer {
+  httpServer: http.Server;
+  registry: LobbyRegistry;
+  close: () => Promise<void>;
+}
+
+const send = (socket: WebSocket, message: SignalingServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+// Lobby creation/join by code plus SDP/ICE relay between the members of a lobby
+export const createSignalingServer = (): SignalingServer => {
+  const registry = new LobbyRegistry();
+  const connections = new Map<string, Connection>(); // keyed by peerId once joined
+  const reconnectTokens = new Map<string, string>(); // the last token issued to each connected peerId
+  const watchers = new Set<Connection>(); // lobby browsers
+  let lastListings = '[]';
+
+  const httpServer = http.createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+
+  const wss = new WebSocketServer({ server: httpServer });
+
+  const broadcastToLobby = (lobbyId: string, exceptId: string, message: SignalingServerMessage) => {
+    registry.get(lobbyId)?.members.forEach(memberId => {
+      const member = connections.get(memberId);
+      if (memberId !== exceptId && member) send(member.socket, message);
+    });
+  };
+
+  // Push the public lobby list to every browser, but only when it changed
+  const notifyWatchers = () => {
+    const lobbies = registry.listings();
+    const serialized = JSON.stringify(lobbies);
+    if (serialized === lastListings) return;
+
+    lastListings = serialized;
+    watchers.forEach(watcher => send(watcher.socket, { type: 'lobby-list', lobbies }));
+  };
+
+  const leaveLobby = (connection: Connection) => {
+    const { lobbyId, peerId } = connection;
+    if (!lobbyId || !peerId) return;
+
+    registry.leave(lobbyId, peerId, Date.now());
+    // The token only matters while this socket is still registered to the id, so it goes with it
+    if (connections.get(peerId) === connection) {
+      connections.delete(peerId);
+      reconnectTokens.delete(peerId);
+    }
+    broadcastToLobby(lobbyId, peerId, { type: 'peer-left', peerId });
+    connection.lobbyId = null;
+    connection.peerId = null;
+    notifyWatchers();
+  };
+
+  const handleMessage = (connection: Connection, message: SignalingClientMessage) => {
+    switch (message.type) {
+      case 'create-lobby':
+      case 'join-lobby': {
+        leaveLobby(connection);
+
+        // An id that's still connected only changes sockets for whoever was issued its token
+        const previous = connections.get(message.peerId);
+        if (previous && previous !== connection && reconnectTokens.get(message.peerId) !== message.reconnectToken) {
+          send(connection.socket, { type: 'error', reason: 'PEER_ID_TAKEN' });
+          return;
+        }
+
+        const result = message.type === 'create-lobby'
+          ? registry.create(message.lobbyId, message.peerId, Date.now())
+          : registry.join(message.lobbyId, message.peerId);
+        if (!result.ok) {
+          send(connection.socket, { type: 'error', reason: result.reason });
+          return;
+        }
+
+        // A reconnecting peer replaces its previous socket
+        if (previous && previous !== connection) {
+          previous.peerId = null;
+          previous.lobbyId = null;
+          previous.socket.close();
+        }
+
+        connection.peerId = message.peerId;
+        connection.lobbyId = message.lobbyId;
+        connections.set(message.peerId, connection);
+
+        const reconnectToken = randomBytes(16).toString('hex');
+        reconnectTokens.set(message.peerId, reconnectToken);
+
+        send(connection.socket, {
+          type: 'joined',
+          lobbyId: result.lobby.lobbyId,
+          hostId: result.lobby.hostId,
+          peerIds: result.lobby.members.filter(id => id !== message.peerId),
+          reconnectToken
+        });
+        broadcastToLobby(message.lobbyId, message.peerId, { type: 'peer-joined', peerId: message.peerId });
+        break;
+      }
+
+      case 'signal': {
+        const { lobbyId, peerId } = connection;
+        if (!lobbyId || !peerId) {
+          send(connection.socket, { type: 'error', reason: 'NOT_IN_LOBBY' });
+          return;
+        }
+
+        // Only relay between members of the same lobby
+        const target = connections.get(message.targetId);
+        if (target && target.lobbyId === lobbyId) {
+          send(target.socket, { type: 'signal', fromId: peerId, data: message.data });
+        }
+        break;
+      }
+
+      case 'publish-lobby': {
+        const { lobbyId, peerId } = connection;
+        if (!lobbyId || !peerId) {
+          send(connection.socket, { type: 'error', reason: 'NOT_IN_LOBBY' });
+          return;
+        }
+        registry.publish(lobbyId, peerId, message.listing);
+        notifyWatchers();
+        break;
+      }
+
+      case 'watch-lobbies':
+        watchers.add(connection);
+        send(connection.socket, { type: 'lobby-list', lobbies: registry.listings() });
+        break;
+
+      case 'leave':
+        leaveLobby(connection);
+        break;
+    }
+  };
+
+  const sockets = new Set<Connection>();
+
+  wss.on('connection', socket => {
+    const connection: Connection = { socket, peerId: null, lobbyId: null, alive: true };
+    sockets.add(connection);
+
+    socket.on('pong', () => { connection.alive = true; });
+
+    socket.on('message', raw => {
+      let message: unknown;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        message = null;
+      }
+
+      if (isSignalingClientMessage(message)) {
+        handleMessage(connection, message);
+      } else {
+        send(socket, { type: 'error', reason: 'BAD_REQUEST' });
+      }
+    });
+
+    socket.on('close', () => {
+      leaveLobby(connection);
+      sockets.delete(connection);
+      watchers.delete(connection);
+    });
+  });
+
+  // Terminate sockets that stopped answering pings, then expire empty lobbies
+  const sweepId = setInterval(() => {
+    sockets.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    });
+    registry.sweep(Date.now());
+    notifyWatchers();
+  }, SWEEP_INTERVAL_MS);
+
+  const close = () => new Promise<void>(resolve => {
+    clearInterval(sweepId);
+    sockets.forEach(connection => connection.socket.terminate());
+    wss.close(() => httpServer.close(() => resolve()));
+  });
+
+  return { httpServer, registry, close };
+};
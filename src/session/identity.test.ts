@@ -0,0 +1,34 @@
+import { clearSession, hashLobbyPassword, hashSessionToken, loadIdentity, loadSession, saveSession } from './identity';
+
+beforeEach(() => window.sessionStorage.clear());
+
+test('keeps the same identity across reloads of a tab', () => {
+  const first = loadIdentity();
+  expect(loadIdentity()).toEqual(first);
+
+  window.sessionStorage.clear();
+  expect(loadIdentity().playerId).not.toBe(first.playerId);
+});
+
+test('remembers the last lobby until cleared', () => {
+  expect(loadSession()).toBeNull();
+
+  saveSession({ lobbyId: 'abc123', playerName: 'Ada' });
+  expect(loadSession()).toEqual({ lobbyId: 'abc123', playerName: 'Ada' });
+
+  clearSession();
+  expect(loadSession()).toBeNull();
+});
+
+test('hashes tokens consistently without revealing them', async () => {
+  const hash = await hashSessionToken('secret-token');
+  expect(hash).toBe(await hashSessionToken('secret-token'));
+  expect(hash).not.toContain('secret');
+  expect(hash).not.toBe(await hashSessionToken('other-token'));
+});
+
+test('salts lobby passwords with the lobby id', async () => {
+  const hash = await hashLobbyPassword('abc123', 'hunter2');
+  expect(hash).toBe(await hashLobbyPassword('abc123', 'hunter2'));
+  expect(hash).not.toBe(await hashLobbyPassword('def456', 'hunter2'));
+});
@@ -0,0 +1,73 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// sessionStorage survives a reload but is separate for every tab, so several
+// players can still share one browser in local mode
+const IDENTITY_KEY = 'wartiles-identity';
+const SESSION_KEY = 'wartiles-session';
+
+export interface Identity {
+  playerId: string;
+  sessionToken: string; // secret; only ever sent to the host, which keeps just its hash
+}
+
+// The lobby we were last in, so Home can offer to rejoin it
+export interface SavedSession {
+  lobbyId: string;
+  playerName: string;
+}
+
+const readJson = <T>(storage: Storage, key: string): T | null => {
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadIdentity = (storage: Storage = window.sessionStorage): Identity => {
+  const stored = readJson<Identity>(storage, IDENTITY_KEY);
+  if (stored?.playerId && stored.sessionToken) return stored;
+
+  const identity = { playerId: uuidv4(), sessionToken: uuidv4() };
+  storage.setItem(IDENTITY_KEY, JSON.stringify(identity));
+  return identity;
+};
+
+export const loadSession = (storage: Storage = window.sessionStorage): SavedSession | null =>
+  readJson<SavedSession>(storage, SESSION_KEY);
+
+export const saveSession = (session: SavedSession, storage: Storage = window.sessionStorage) => {
+  storage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const clearSession = (storage: Storage = window.sessionStorage) => {
+  storage.removeItem(SESSION_KEY);
+};
+
+// FNV-1a with a few seeds. Only used without WebCrypto (plain http on a LAN),
+// where it's enough to keep casual players from copying someone's seat.
+const fallbackHash = (value: string): string =>
+  [0x811c9dc5, 0x01000193, 0x050c5d1f, 0x1b873593].map(seed => {
+    let hash = seed;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+
+const hashSecret = async (secret: string): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return fallbackHash(secret);
+
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// What the host stores to recognise a returning player without learning the token
+export const hashSessionToken = (token: string): Promise<string> => hashSecret(token);
+
+// Salted with the lobby id, so the same password hashes differently in every lobby
+export const hashLobbyPassword = (lobbyId: string, password: string): Promise<string> =>
+  hashSecret(`${lobbyId}:${password}`);
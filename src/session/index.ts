@@ -0,0 +1,2 @@
+export { loadIdentity, loadSession, saveSession, clearSession, hashSessionToken, hashLobbyPassword } from './identity';
+export type { Identity, SavedSession } from './identity';
@@ -0,0 +1,88 @@
+import { GameState } from '../types';
+import { applyDelta, diffGameState, isEmptyDelta, StateDelta } from './delta';
+
+// Every Nth update is sent as a full snapshot so peers can resync on their own
+export const SNAPSHOT_INTERVAL = 50;
+
+export interface StateSnapshot {
+  seq: number;
+  state: GameState;
+}
+
+export type SyncUpdate =
+  | { kind: 'delta'; delta: StateDelta }
+  | { kind: 'snapshot'; snapshot: StateSnapshot };
+
+// Host side: numbers outgoing updates and decides between delta and snapshot
+export class SyncSender {
+  private seq = 0;
+  private lastState: GameState | null = null;
+
+  // Start a new stream, e.g. when the game starts
+  reset(state: GameState): StateSnapshot {
+    this.seq = 0;
+    this.lastState = state;
+    return { seq: this.seq, state };
+  }
+
+  // The update for a new state, or null if nothing changed
+  next(state: GameState): SyncUpdate | null {
+    if (!this.lastState) {
+      return { kind: 'snapshot', snapshot: this.reset(state) };
+    }
+
+    const delta = diffGameState(this.lastState, state, this.seq + 1);
+    if (isEmptyDelta(delta)) return null;
+
+    this.seq += 1;
+    this.lastState = state;
+
+    if (this.seq % SNAPSHOT_INTERVAL === 0) {
+      return { kind: 'snapshot', snapshot: { seq: this.seq, state } };
+    }
+    return { kind: 'delta', delta };
+  }
+
+  // The latest state at the current sequence number, for a peer that asks to resync
+  current(): StateSnapshot | null {
+    return this.lastState ? { seq: this.seq, state: this.lastState } : null;
+  }
+}
+
+export type ReceiveResult =
+  | { ok: true; state: GameState }
+  | { ok: false; needsSnapshot: boolean };
+
+// Client side: applies updates in order and notices missing ones
+export class SyncReceiver {
+  private lastSeq: number | null = null;
+  private awaitingSnapshot = false;
+
+  receiveSnapshot(snapshot: StateSnapshot): GameState {
+    this.lastSeq = snapshot.seq;
+    this.awaitingSnapshot = false;
+    return snapshot.state;
+  }
+
+  receiveDelta(delta: StateDelta, current: GameState | null): ReceiveResult {
+    // A duplicate or an update older than our snapshot
+    if (this.lastSeq !== null && delta.seq <= this.lastSeq) {
+      return { ok: false, needsSnapshot: false };
+    }
+
+    if (!current || this.lastSeq === null || delta.seq !== this.lastSeq + 1) {
+      // Only ask once; the snapshot (or the next periodic one) clears the flag
+      const needsSnapshot = !this.awaitingSnapshot;
+      this.awaitingSnapshot = true;
+      return { ok: false, needsSnapshot };
+    }
+
+    this.lastSeq = delta.seq;
+    return { ok: true, state: applyDelta(current, delta) };
+  }
+
+  reset() {
+    this.lastSeq = null;
+    this.awaitingSnapshot = false;
+  }
+}
@@ -0,0 +1,21 @@
+import { TICK_MS } from '../types';
+import { ClockSync, measureClockSample, tickAt } from './clock';
+
+test('estimates the host clock from the fastest round trip', () => {
+  let localNow = 10_000;
+  const clock = new ClockSync(() => localNow);
+
+  // Host is 500ms ahead; the slow sample has an asymmetric delay that skews it
+  clock.addSample(measureClockSample(1000, 1600, 1200));
+  clock.addSample(measureClockSample(2000, 2540, 2080));
+  expect(clock.offset()).toBe(500);
+
+  localNow = 20_000;
+  expect(clock.now()).toBe(20_500);
+});
+
+test('tickAt counts whole ticks since the start', () => {
+  expect(tickAt(1000, 900)).toBe(0);
+  expect(tickAt(1000, 1000 + TICK_MS * 3 - 1)).toBe(2);
+  expect(tickAt(1000, 1000 + TICK_MS * 3)).toBe(3);
+});
@@ -0,0 +1,49 @@
+import { TICK_MS } from '../types';
+
+// How many recent round trips to keep when estimating the offset
+export const CLOCK_SAMPLE_SIZE = 8;
+export const CLOCK_PING_INTERVAL_MS = 2000;
+
+// Clients run the simulation ahead of the host's last update by at most this much,
+// so a stalled host can't make them predict all the way to the end of the game
+export const MAX_PREDICTION_TICKS = 10;
+
+export interface ClockSample {
+  offset: number; // host clock minus local clock
+  roundTrip: number;
+}
+
+// Sample from one ping/pong: assumes the reply was stamped halfway through the round trip
+export const measureClockSample = (sentAt: number, hostTime: number, receivedAt: number): ClockSample => {
+  const roundTrip = receivedAt - sentAt;
+  return { offset: hostTime - (sentAt + roundTrip / 2), roundTrip };
+};
+
+// Estimates the host's clock from ping/pong samples. The host itself keeps offset 0.
+export class ClockSync {
+  private samples: ClockSample[] = [];
+
+  constructor(private readonly localNow: () => number = Date.now) {}
+
+  addSample(sample: ClockSample) {
+    this.samples = [...this.samples, sample].slice(-CLOCK_SAMPLE_SIZE);
+  }
+
+  // The sample with the shortest round trip has the least room for asymmetric delay
+  offset(): number {
+    if (this.samples.length === 0) return 0;
+    return this.samples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best)).offset;
+  }
+
+  now(): number {
+    return this.localNow() + this.offset();
+  }
+
+  reset() {
+    this.samples = [];
+  }
+}
+
+// The tick every peer should be on at hostNow for a game that started at startTime
+export const tickAt = (startTime: number, hostNow: number): number =>
+  Math.max(0, Math.floor((hostNow - startTime) / TICK_MS));
@@ -0,0 +1,48 @@
+import { applyAction, tick } from '../engine';
+import { startGame } from '../engine/testFixtures';
+import { Faction, GameState } from '../types';
+import { SyncReceiver, SyncSender } from './channel';
+import { applyDelta, diffGameState } from './delta';
+
+const busyGame = (): GameState => {
+  const economy = { gold: 100, units: 50, unitRate: 1 };
+  return startGame({ a: economy, b: { ...economy, faction: Faction.ALIENS } });
+};
+
+test('applying a diff reproduces the next state', () => {
+  const start = busyGame();
+  const claimed = applyAction(start, { type: 'CLAIM_TILE', x: 4, y: 3 }, 'a');
+  if (!claimed.ok) throw new Error(claimed.reason);
+  const next = tick(claimed.state);
+
+  const delta = diffGameState(start, next, 1);
+  expect(delta.tiles).toHaveLength(1);
+  expect(applyDelta(start, delta)).toEqual(next);
+});
+
+test('tiles off the map are skipped', () => {
+  const start = busyGame();
+  const stray = { ...start.grid[0][0], x: 0, y: start.grid.length };
+  const delta = { seq: 1, tiles: [stray], players: [], removedPlayerIds: [], meta: {} };
+
+  expect(applyDelta(start, delta)).toEqual(start);
+});
+
+test('receiver detects a gap and asks for a snapshot once', () => {
+  const sender = new SyncSender();
+  const receiver = new SyncReceiver();
+  const start = busyGame();
+
+  let state = receiver.receiveSnapshot(sender.reset(start));
+  const first = sender.next(tick(start));
+  const second = sender.next(tick(tick(start)));
+  if (first?.kind !== 'delta' || second?.kind !== 'delta') throw new Error('expected deltas');
+
+  // Skip the first delta
+  expect(receiver.receiveDelta(second.delta, state)).toEqual({ ok: false, needsSnapshot: true });
+  expect(receiver.receiveDelta(second.delta, state)).toEqual({ ok: false, needsSnapshot: false });
+
+  state = receiver.receiveSnapshot(sender.current()!);
+  expect(state.tick).toBe(2);
+  expect(receiver.receiveDelta(first.delta, state)).toEqual({ ok: false, needsSnapshot: false });
+});
@@ -0,0 +1,106 @@
+import { GameState, Player, Tile } from '../types';
+
+type Coord = { x: number; y: number };
+
+export interface PlayerPatch {
+  id: string;
+  fields: Partial<Omit<Player, 'id' | 'tiles'>>;
+  tilesAdded?: Coord[];
+  tilesRemoved?: Coord[];
+}
+
+// Everything that changed between two consecutive states
+export interface StateDelta {
+  seq: number;
+  tiles: Tile[]; // changed tiles, in full
+  players: PlayerPatch[];
+  removedPlayerIds: string[];
+  meta: Partial<Omit<GameState, 'grid' | 'players'>>;
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const tilesEqual = (a: Tile, b: Tile) => sameJson(a, b);
+
+const coordKey = ({ x, y }: Coord) => `${x},${y}`;
+
+const diffPlayer = (prev: Player | undefined, next: Player): PlayerPatch | null => {
+  const patch: PlayerPatch = { id: next.id, fields: {} };
+  const fields = patch.fields as Record<string, unknown>;
+
+  (Object.keys(next) as Array<keyof Player>).forEach(key => {
+    if (key === 'id' || key === 'tiles') return;
+    if (!prev || !sameJson(prev[key], next[key])) fields[key] = next[key];
+  });
+
+  const prevKeys = new Set((prev?.tiles ?? []).map(coordKey));
+  const nextKeys = new Set(next.tiles.map(coordKey));
+  const tilesAdded = next.tiles.filter(t => !prevKeys.has(coordKey(t)));
+  const tilesRemoved = (prev?.tiles ?? []).filter(t => !nextKeys.has(coordKey(t)));
+  if (tilesAdded.length) patch.tilesAdded = tilesAdded;
+  if (tilesRemoved.length) patch.tilesRemoved = tilesRemoved;
+
+  const changed = Object.keys(fields).length > 0 || tilesAdded.length > 0 || tilesRemoved.length > 0;
+  return changed ? patch : null;
+};
+
+// Compute the delta that turns prev into next
+export const diffGameState = (prev: GameState, next: GameState, seq: number): StateDelta => {
+  const tiles: Tile[] = [];
+  next.grid.forEach((row, y) => row.forEach((tile, x) => {
+    const prevTile = prev.grid[y]?.[x];
+    if (!prevTile || !tilesEqual(prevTile, tile)) tiles.push(tile);
+  }));
+
+  const players = Object.values(next.players)
+    .map(player => diffPlayer(prev.players[player.id], player))
+    .filter((patch): patch is PlayerPatch => patch !== null);
+
+  const removedPlayerIds = Object.keys(prev.players).filter(id => !next.players[id]);
+
+  const meta: Record<string, unknown> = {};
+  (Object.keys(next) as Array<keyof GameState>).forEach(key => {
+    if (key === 'grid' || key === 'players') return;
+    if (!sameJson(prev[key], next[key])) meta[key] = next[key];
+  });
+
+  return { seq, tiles, players, removedPlayerIds, meta };
+};
+
+export const isEmptyDelta = (delta: StateDelta) =>
+  delta.tiles.length === 0 &&
+  delta.players.length === 0 &&
+  delta.removedPlayerIds.length === 0 &&
+  Object.keys(delta.meta).length === 0;
+
+// Apply a delta produced by diffGameState. Never mutates the input.
+export const applyDelta = (state: GameState, delta: StateDelta): GameState => {
+  const next = JSON.parse(JSON.stringify(state)) as GameState;
+
+  delta.tiles.forEach(tile => {
+    // A tile that isn't on the map is skipped rather than breaking the whole update
+    if (!next.grid[tile.y]?.[tile.x]) return;
+    next.grid[tile.y][tile.x] = { ...tile };
+  });
+
+  delta.players.forEach(patch => {
+    const player = next.players[patch.id] ?? ({ id: patch.id, tiles: [] } as unknown as Player);
+    Object.assign(player, patch.fields);
+
+    if (patch.tilesRemoved) {
+      const removed = new Set(patch.tilesRemoved.map(coordKey));
+      player.tiles = player.tiles.filter(t => !removed.has(coordKey(t)));
+    }
+    if (patch.tilesAdded) {
+      player.tiles.push(...patch.tilesAdded);
+    }
+
+    next.players[patch.id] = player;
+  });
+
+  delta.removedPlayerIds.forEach(id => {
+    delete next.players[id];
+  });
+
+  return { ...next, ...delta.meta };
+};
@@ -0,0 +1,23 @@
+export { diffGameState, applyDelta, isEmptyDelta } from './delta';
+export type { StateDelta, PlayerPatch } from './delta';
+export { SyncSender, SyncReceiver, SNAPSHOT_INTERVAL } from './channel';
+export type { StateSnapshot, SyncUpdate, ReceiveResult } from './channel';
+export {
+  ClockSync,
+  measureClockSample,
+  tickAt,
+  CLOCK_SAMPLE_SIZE,
+  CLOCK_PING_INTERVAL_MS,
+  MAX_PREDICTION_TICKS
+} from './clock';
+export type { ClockSample } from './clock';
+export {
+  LivenessTracker,
+  electHost,
+  hasKickMajority,
+  isRightfulSuccessor,
+  kickVotesNeeded,
+  seniorityOrder,
+  HEARTBEAT_INTERVAL_MS,
+  LIVENESS_TIMEOUT_MS
+} from './liveness';
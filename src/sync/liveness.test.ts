@@ -0,0 +1,60 @@
+import { DEFAULT_MATCH_SETTINGS, LobbyState } from '../types';
+import { electHost, hasKickMajority, isRightfulSuccessor, kickVotesNeeded, LIVENESS_TIMEOUT_MS, LivenessTracker } from './liveness';
+
+const lobby = (joinOrder: string[], host: string): LobbyState => ({
+  lobbyId: 'abc123',
+  name: 'Test lobby',
+  isPublic: false,
+  createdAt: 0,
+  host,
+  joinOrder,
+  sessions: {},
+  disconnectPolicy: 'freeze',
+  settings: DEFAULT_MATCH_SETTINGS,
+  passwordHash: null,
+  hasPassword: false,
+  locked: false,
+  banned: [],
+  gameStarted: false,
+  players: Object.fromEntries(joinOrder.map(id => [id, { id } as LobbyState['players'][string]]))
+});
+
+test('players expire after the timeout or when marked gone', () => {
+  const liveness = new LivenessTracker();
+  liveness.markSeen('a', 1000);
+  liveness.markSeen('b', 1000);
+
+  expect(liveness.isAlive('a', 1000 + LIVENESS_TIMEOUT_MS - 1)).toBe(true);
+  expect(liveness.isAlive('a', 1000 + LIVENESS_TIMEOUT_MS)).toBe(false);
+
+  liveness.markGone('b');
+  expect(liveness.isAlive('b', 1001)).toBe(false);
+});
+
+test('the earliest-joined live player replaces the host', () => {
+  const state = lobby(['host', 'b', 'c'], 'host');
+
+  expect(electHost(state, () => true)).toBe('b');
+  expect(electHost(state, id => id !== 'b')).toBe('c');
+  expect(electHost(state, () => false)).toBeNull();
+});
+
+test('only the player we would have elected can take over, and only from a quiet host', () => {
+  const state = lobby(['host', 'b', 'c'], 'host');
+  const hostGone = (id: string) => id !== 'host';
+
+  expect(isRightfulSuccessor(state, 'host', 'b', hostGone)).toBe(true);
+  expect(isRightfulSuccessor(state, 'host', 'b', () => true)).toBe(false);
+  expect(isRightfulSuccessor(state, 'host', 'c', hostGone)).toBe(false);
+  expect(isRightfulSuccessor(state, 'host', 'outsider', hostGone)).toBe(false);
+});
+
+test('a kick needs votes from most of the other players', () => {
+  const state = lobby(['a', 'b', 'c', 'd'], 'a');
+
+  expect(kickVotesNeeded(state, 'd')).toBe(2);
+  expect(hasKickMajority(state, 'd', ['a'])).toBe(false);
+  expect(hasKickMajority(state, 'd', ['a', 'd', 'outsider'])).toBe(false);
+  expect(hasKickMajority(state, 'd', ['a', 'b'])).toBe(true);
+  expect(hasKickMajority(lobby(['a', 'b'], 'a'), 'a', ['b'])).toBe(true);
+});
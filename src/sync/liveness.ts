@@ -0,0 +1,58 @@
+import { LobbyState } from '../types';
+
+export const HEARTBEAT_INTERVAL_MS = 1000;
+
+// A player we haven't heard from for this long is treated as gone
+export const LIVENESS_TIMEOUT_MS = 5000;
+
+// Tracks when each player was last heard from. Any message counts, not just heartbeats.
+export class LivenessTracker {
+  private lastSeen = new Map<string, number>();
+
+  markSeen(playerId: string, now: number) {
+    this.lastSeen.set(playerId, now);
+  }
+
+  // The transport told us the connection is gone, so don't wait for the timeout
+  markGone(playerId: string) {
+    this.lastSeen.delete(playerId);
+  }
+
+  isAlive(playerId: string, now: number): boolean {
+    const seenAt = this.lastSeen.get(playerId);
+    return seenAt !== undefined && now - seenAt < LIVENESS_TIMEOUT_MS;
+  }
+
+  reset() {
+    this.lastSeen.clear();
+  }
+}
+
+// Players in the order they joined; anyone missing from joinOrder goes last, by id
+export const seniorityOrder = (lobby: LobbyState): string[] => {
+  const ordered = lobby.joinOrder.filter(id => lobby.players[id]);
+  const rest = Object.keys(lobby.players).filter(id => !ordered.includes(id)).sort();
+  return [...ordered, ...rest];
+};
+
+// The earliest-joined remaining player takes over from the current host
+export const electHost = (lobby: LobbyState, isAlive: (playerId: string) => boolean): string | null =>
+  seniorityOrder(lobby).find(id => id !== lobby.host && isAlive(id)) ?? null;
+
+// Whether to believe a player who says they took over from host: they have to be
+// seated, host has to have gone quiet, and they have to be who we'd have elected
+export const isRightfulSuccessor = (
+  lobby: LobbyState,
+  host: string,
+  claimantId: string,
+  isAlive: (playerId: string) => boolean
+): boolean => !!lobby.players[claimantId] && !isAlive(host) && electHost({ ...lobby, host }, isAlive) === claimantId;
+
+// A suspect is kicked once most of the other players have voted for it
+export const kickVotesNeeded = (lobby: LobbyState, suspectId: string): number =>
+  Math.floor(Object.keys(lobby.players).filter(id => id !== suspectId).length / 2) + 1;
+
+export const hasKickMajority = (lobby: LobbyState, suspectId: string, votes: string[]): boolean => {
+  const counted = votes.filter(id => id !== suspectId && lobby.players[id]);
+  return counted.length >= kickVotesNeeded(lobby, suspectId);
+};
@@ -0,0 +1,53 @@
+import { PeerMessage } from '../protocol';
+import { SIGNALING_ERROR_MESSAGES } from './signalingProtocol';
+import { BroadcastChannelTransport, collectStaleStorage, JOIN_TIMEOUT_MS, STALE_LOBBY_MS } from './broadcastChannelTransport';
+import { createHub } from './testFixtures';
+
+const heartbeat = (senderId: string): PeerMessage => ({ type: 'HEARTBEAT', payload: null, senderId });
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+test('tabs in a lobby find each other and exchange messages', async () => {
+  const hub = createHub();
+  const host = new BroadcastChannelTransport(hub, null);
+  const guest = new BroadcastChannelTransport(hub, null);
+  const received: PeerMessage[] = [];
+  host.onMessage(message => received.push(message));
+
+  await host.connect('abc123', 'host', 'create');
+  const joined = guest.connect('abc123', 'guest', 'join');
+  jest.advanceTimersByTime(JOIN_TIMEOUT_MS);
+  await joined;
+
+  expect(host.getPeerIds()).toEqual(['guest']);
+  expect(guest.getPeerIds()).toEqual(['host']);
+
+  guest.broadcast(heartbeat('guest'));
+  guest.sendTo('someone-else', heartbeat('guest'));
+  expect(received).toEqual([heartbeat('guest')]);
+
+  guest.disconnect();
+  expect(host.getPeerIds()).toEqual([]);
+});
+
+test('joining a lobby nobody answers for fails', async () => {
+  const guest = new BroadcastChannelTransport(createHub(), null);
+
+  const joined = guest.connect('nope', 'guest', 'join');
+  jest.advanceTimersByTime(JOIN_TIMEOUT_MS);
+  await expect(joined).rejects.toThrow(SIGNALING_ERROR_MESSAGES.LOBBY_NOT_FOUND);
+});
+
+test('clears leftover message keys and stale lobby records', () => {
+  const now = 10 * STALE_LOBBY_MS;
+  localStorage.clear();
+  localStorage.setItem('lobby-abc123-msg-HEARTBEAT-1', '{}');
+  localStorage.setItem('lobby-abc123', JSON.stringify({ createdAt: 0 }));
+  localStorage.setItem('lobby-def456', JSON.stringify({ createdAt: 0, lastHeartbeat: now - 1000 }));
+  localStorage.setItem('wartiles-identity', '{}');
+
+  expect(collectStaleStorage(localStorage, now).sort()).toEqual(['lobby-abc123', 'lobby-abc123-msg-HEARTBEAT-1']);
+  expect(localStorage.getItem('lobby-def456')).not.toBeNull();
+  expect(localStorage.getItem('wartiles-identity')).not.toBeNull();
+});
@@ -0,0 +1,187 @@
+import { PeerMessage, decodeMessage, encodeMessage } from '../protocol';
+import { LobbyListing, MAX_PLAYERS } from '../types';
+import { createBroadcastChannel, LocalChannel, LocalChannelFactory, LocalListingPublisher } from './localLobbyDirectory';
+import { SIGNALING_ERROR_MESSAGES } from './signalingProtocol';
+import { LobbyJoinMode, MessageHandler, PeersHandler, Transport } from './types';
+
+// How long a joining tab waits for the lobby's members to answer
+export const JOIN_TIMEOUT_MS = 500;
+
+// Lobby records and messages left in localStorage by older versions of the app
+const LEGACY_MESSAGE_KEY = /^lobby-[^-]+-msg-/;
+const LEGACY_LOBBY_KEY = /^lobby-[^-]+$/;
+export const STALE_LOBBY_MS = 60 * 1000;
+
+// Frames on a lobby's channel. Tabs announce themselves so each knows who else is in the lobby.
+type Frame =
+  | { kind: 'hello'; from: string }            // a tab joined and wants to know who's here
+  | { kind: 'welcome'; from: string; to: string } // answer to a hello
+  | { kind: 'bye'; from: string }
+  | { kind: 'message'; data: string };         // an encoded PeerMessage
+
+const isFrame = (value: unknown): value is Frame =>
+  typeof value === 'object' && value !== null && typeof (value as { kind?: unknown }).kind === 'string';
+
+// Remove what older versions wrote to localStorage: every message key (they were never
+// cleaned up) and lobby records nobody has refreshed for a while
+export const collectStaleStorage = (storage: Storage, now: number): string[] => {
+  const stale: string[] = [];
+
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (!key) continue;
+
+    if (LEGACY_MESSAGE_KEY.test(key)) {
+      stale.push(key);
+    } else if (LEGACY_LOBBY_KEY.test(key)) {
+      try {
+        const record = JSON.parse(storage.getItem(key) ?? '{}');
+        const refreshedAt = record.lastHeartbeat ?? record.createdAt ?? 0;
+        if (now - refreshedAt > STALE_LOBBY_MS) stale.push(key);
+      } catch {
+        stale.push(key);
+      }
+    }
+  }
+
+  stale.forEach(key => storage.removeItem(key));
+  return stale;
+};
+
+// Same-device transport: the tabs of a lobby share a BroadcastChannel
+export class BroadcastChannelTransport implements Transport {
+  private channel: LocalChannel | null = null;
+  private selfId: string | null = null;
+  private messageHandlers = new Set<MessageHandler>();
+  private peersHandlers = new Set<PeersHandler>();
+  private knownPeers = new Set<string>();
+  private publisher: LocalListingPublisher;
+
+  constructor(
+    private createChannel: LocalChannelFactory = createBroadcastChannel,
+    storage: Storage | null = typeof window !== 'undefined' ? window.localStorage : null
+  ) {
+    this.publisher = new LocalListingPublisher(createChannel);
+    if (storage) collectStaleStorage(storage, Date.now());
+  }
+
+  connect(lobbyId: string, selfId: string, mode: LobbyJoinMode): Promise<void> {
+    this.disconnect();
+
+    this.selfId = selfId;
+    this.channel = this.createChannel(`wartiles-lobby-${lobbyId}`);
+    this.channel.onmessage = event => this.handleFrame(event.data);
+    window.addEventListener('pagehide', this.handlePageHide);
+    this.post({ kind: 'hello', from: selfId });
+
+    if (mode === 'create') return Promise.resolve();
+
+    // There's no directory for same-device lobbies: a lobby exists if someone answers
+    const channel = this.channel;
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (this.channel !== channel) {
+          reject(new Error(SIGNALING_ERROR_MESSAGES.LOBBY_NOT_FOUND));
+        } else if (this.knownPeers.size === 0) {
+          this.disconnect();
+          reject(new Error(SIGNALING_ERROR_MESSAGES.LOBBY_NOT_FOUND));
+        } else if (this.knownPeers.size >= MAX_PLAYERS) {
+          this.disconnect();
+          reject(new Error(SIGNALING_ERROR_MESSAGES.LOBBY_FULL));
+        } else {
+          resolve();
+        }
+      }, JOIN_TIMEOUT_MS);
+    });
+  }
+
+  broadcast(message: PeerMessage) {
+    this.post({ kind: 'message', data: encodeMessage(message) });
+  }
+
+  sendTo(peerId: string, message: PeerMessage) {
+    this.broadcast({ ...message, targetId: peerId });
+  }
+
+  onMessage(handler: MessageHandler) {
+    this.messageHandlers.add(handler);
+    return () => { this.messageHandlers.delete(handler); };
+  }
+
+  onPeersChanged(handler: PeersHandler) {
+    this.peersHandlers.add(handler);
+    return () => { this.peersHandlers.delete(handler); };
+  }
+
+  getPeerIds() {
+    return Array.from(this.knownPeers);
+  }
+
+  publishListing(listing: LobbyListing | null) {
+    this.publisher.publish(listing);
+  }
+
+  disconnect() {
+    this.publisher.publish(null);
+    if (this.channel && this.selfId) this.post({ kind: 'bye', from: this.selfId });
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.channel?.close();
+    this.channel = null;
+    this.selfId = null;
+
+    if (this.knownPeers.size > 0) {
+      this.knownPeers.clear();
+      this.notifyPeers();
+    }
+  }
+
+  private post(frame: Frame) {
+    this.channel?.postMessage(frame);
+  }
+
+  private notifyPeers() {
+    const peerIds = this.getPeerIds();
+    this.peersHandlers.forEach(handler => handler(peerIds));
+  }
+
+  private addPeer(peerId: string) {
+    if (peerId === this.selfId || this.knownPeers.has(peerId)) return;
+    this.knownPeers.add(peerId);
+    this.notifyPeers();
+  }
+
+  // Closing the tab doesn't run our cleanup, so say goodbye while we still can
+  private handlePageHide = () => {
+    if (this.channel && this.selfId) this.post({ kind: 'bye', from: this.selfId });
+  };
+
+  private handleFrame = (frame: unknown) => {
+    if (!this.selfId || !isFrame(frame)) return;
+
+    switch (frame.kind) {
+      case 'hello':
+        this.addPeer(frame.from);
+        this.post({ kind: 'welcome', from: this.selfId, to: frame.from });
+        break;
+
+      case 'welcome':
+        if (frame.to === this.selfId) this.addPeer(frame.from);
+        break;
+
+      case 'bye':
+        if (this.knownPeers.delete(frame.from)) this.notifyPeers();
+        break;
+
+      case 'message': {
+        const message = decodeMessage(frame.data);
+        if (!message || message.senderId === this.selfId) return;
+        if (message.targetId && message.targetId !== this.selfId) return;
+
+        // A reloaded tab may miss the hello exchange, so hearing from a peer also counts
+        this.addPeer(message.senderId);
+        this.messageHandlers.forEach(handler => handler(message));
+        break;
+      }
+    }
+  };
+}
@@ -0,0 +1,40 @@
+import { BroadcastChannelTransport } from './broadcastChannelTransport';
+import { SimplePeerTransport } from './simplePeerTransport';
+import { WebSocketSignaling } from './webSocketSignaling';
+import { LocalLobbyBrowser } from './localLobbyDirectory';
+import { WebSocketLobbyBrowser } from './webSocketLobbyBrowser';
+import { LobbyBrowser, Transport } from './types';
+
+export type {
+  Transport,
+  SignalingChannel,
+  SignalingEvents,
+  MessageHandler,
+  PeersHandler,
+  LobbyBrowser,
+  ListingsHandler
+} from './types';
+export { BroadcastChannelTransport, collectStaleStorage } from './broadcastChannelTransport';
+export { SimplePeerTransport } from './simplePeerTransport';
+export { WebSocketSignaling } from './webSocketSignaling';
+export { ManualSignaling } from './manualSignaling';
+export { LocalLobbyBrowser } from './localLobbyDirectory';
+export { WebSocketLobbyBrowser } from './webSocketLobbyBrowser';
+
+// Use WebRTC when a signaling server is configured, otherwise same-device play
+export const createTransport = (): Transport => {
+  const signalingUrl = process.env.REACT_APP_SIGNALING_URL;
+  if (signalingUrl) {
+    return new SimplePeerTransport(new WebSocketSignaling(signalingUrl));
+  }
+  return new BroadcastChannelTransport();
+};
+
+// Lobbies are listed wherever createTransport would connect to them
+export const createLobbyBrowser = (): LobbyBrowser => {
+  const signalingUrl = process.env.REACT_APP_SIGNALING_URL;
+  if (signalingUrl) {
+    return new WebSocketLobbyBrowser(signalingUrl);
+  }
+  return new LocalLobbyBrowser();
+};
@@ -0,0 +1,48 @@
+import { Faction, LobbyListing } from '../types';
+import { LISTING_ANNOUNCE_MS, LISTING_TTL_MS, LocalListingPublisher, LocalLobbyBrowser } from './localLobbyDirectory';
+import { createHub } from './testFixtures';
+
+const listing: LobbyListing = {
+  lobbyId: 'abc123',
+  name: 'Open game',
+  hostName: 'Ann',
+  playerCount: 1,
+  maxPlayers: 3,
+  factions: [Faction.HUMANS],
+  hasPassword: false,
+  createdAt: 0
+};
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+test('a browser sees lobbies published before and after it opened', () => {
+  const hub = createHub();
+  const publisher = new LocalListingPublisher(hub);
+  publisher.publish(listing);
+
+  let seen: LobbyListing[] = [];
+  const unsubscribe = new LocalLobbyBrowser(hub).subscribe(update => { seen = update; });
+  expect(seen).toEqual([listing]);
+
+  publisher.publish({ ...listing, playerCount: 2 });
+  expect(seen).toEqual([{ ...listing, playerCount: 2 }]);
+
+  publisher.publish(null);
+  expect(seen).toEqual([]);
+  unsubscribe();
+});
+
+test('listings from closed tabs expire', () => {
+  const hub = createHub();
+  let seen: LobbyListing[] = [];
+  new LocalLobbyBrowser(hub).subscribe(update => { seen = update; });
+
+  // A tab that was closed never unlists; it just stops announcing
+  const channel = hub('wartiles-lobbies');
+  channel.postMessage({ kind: 'listing', listing });
+  expect(seen).toEqual([listing]);
+
+  jest.advanceTimersByTime(LISTING_TTL_MS + LISTING_ANNOUNCE_MS);
+  expect(seen).toEqual([]);
+});
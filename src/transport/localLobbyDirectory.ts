@@ -0,0 +1,121 @@
+import { isLobbyListing } from '../protocol';
+import { LobbyListing } from '../types';
+import { ListingsHandler, LobbyBrowser } from './types';
+
+// Every tab on the device hears the same directory channel
+const DIRECTORY_CHANNEL = 'wartiles-lobbies';
+
+// Hosts re-announce their lobby on this interval; a listing not heard for
+// LISTING_TTL_MS is assumed to be gone (its tab was closed)
+export const LISTING_ANNOUNCE_MS = 2000;
+export const LISTING_TTL_MS = 5000;
+
+// The part of BroadcastChannel we use, so tests can pass in a fake
+export interface LocalChannel {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage: (data: unknown) => void;
+  close: () => void;
+}
+
+export type LocalChannelFactory = (name: string) => LocalChannel;
+
+export const createBroadcastChannel: LocalChannelFactory = name => new BroadcastChannel(name);
+
+type DirectoryFrame =
+  | { kind: 'listing'; listing: LobbyListing }
+  | { kind: 'unlisted'; lobbyId: string }
+  | { kind: 'query' }; // a browser opened and wants every listing now
+
+const readFrame = (value: unknown): DirectoryFrame | null => {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const frame = value as Record<string, unknown>;
+  switch (frame.kind) {
+    case 'listing':
+      return isLobbyListing(frame.listing) ? { kind: 'listing', listing: frame.listing } : null;
+    case 'unlisted':
+      return typeof frame.lobbyId === 'string' ? { kind: 'unlisted', lobbyId: frame.lobbyId } : null;
+    case 'query':
+      return { kind: 'query' };
+    default:
+      return null;
+  }
+};
+
+// Keeps a host's lobby listed for the other tabs until it's taken down
+export class LocalListingPublisher {
+  private channel: LocalChannel | null = null;
+  private listing: LobbyListing | null = null;
+  private announceTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private createChannel: LocalChannelFactory) {}
+
+  publish(listing: LobbyListing | null) {
+    const previous = this.listing;
+    this.listing = listing;
+
+    if (!listing) {
+      if (previous) this.channel?.postMessage({ kind: 'unlisted', lobbyId: previous.lobbyId });
+      this.stop();
+      return;
+    }
+
+    if (!this.channel) {
+      this.channel = this.createChannel(DIRECTORY_CHANNEL);
+      this.channel.onmessage = event => {
+        if (readFrame(event.data)?.kind === 'query') this.announce();
+      };
+      this.announceTimer = setInterval(() => this.announce(), LISTING_ANNOUNCE_MS);
+    }
+    this.announce();
+  }
+
+  private announce() {
+    if (this.listing) this.channel?.postMessage({ kind: 'listing', listing: this.listing });
+  }
+
+  private stop() {
+    if (this.announceTimer) clearInterval(this.announceTimer);
+    this.announceTimer = null;
+    this.channel?.close();
+    this.channel = null;
+  }
+}
+
+// Collects the listings announced by hosts in other tabs
+export class LocalLobbyBrowser implements LobbyBrowser {
+  constructor(private createChannel: LocalChannelFactory = createBroadcastChannel) {}
+
+  subscribe(handler: ListingsHandler) {
+    const listings = new Map<string, { listing: LobbyListing; seenAt: number }>();
+    const emit = () => handler(Array.from(listings.values()).map(entry => entry.listing));
+
+    const channel = this.createChannel(DIRECTORY_CHANNEL);
+    channel.onmessage = event => {
+      const frame = readFrame(event.data);
+      if (frame?.kind === 'listing') {
+        listings.set(frame.listing.lobbyId, { listing: frame.listing, seenAt: Date.now() });
+        emit();
+      } else if (frame?.kind === 'unlisted' && listings.delete(frame.lobbyId)) {
+        emit();
+      }
+    };
+
+    const pruneTimer = setInterval(() => {
+      const now = Date.now();
+      let pruned = false;
+      listings.forEach((entry, lobbyId) => {
+        if (now - entry.seenAt > LISTING_TTL_MS) pruned = listings.delete(lobbyId);
+      });
+      if (pruned) emit();
+    }, LISTING_ANNOUNCE_MS);
+
+    handler([]);
+    channel.postMessage({ kind: 'query' });
+
+    return () => {
+      clearInterval(pruneTimer);
+      channel.close();
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import SimplePeer from 'simple-peer';
+import { ManualSignaling } from './manualSignaling';
+import { SignalingEvents } from './types';
+
+const recordEvents = () => {
+  const calls: string[] = [];
+  const events: SignalingEvents = {
+    onPeerJoined: (peerId, initiator) => calls.push(`joined ${peerId} ${initiator}`),
+    onPeerLeft: peerId => calls.push(`left ${peerId}`),
+    onSignal: (fromId, data) => calls.push(`signal ${fromId} ${data.type}`),
+    onPeerIdentified: (placeholderId, peerId) => calls.push(`identified ${placeholderId} ${peerId}`)
+  };
+  return { calls, events };
+};
+
+const offer: SimplePeer.SignalData = { type: 'offer', sdp: 'offer-sdp' };
+const answer: SimplePeer.SignalData = { type: 'answer', sdp: 'answer-sdp' };
+
+test('an invite and its answer connect host and guest through pasted blobs', async () => {
+  const blobs: string[] = [];
+  const host = new ManualSignaling(blob => blobs.push(blob));
+  const guest = new ManualSignaling(blob => blobs.push(blob));
+  const hostEvents = recordEvents();
+  const guestEvents = recordEvents();
+  host.listen(hostEvents.events);
+  guest.listen(guestEvents.events);
+  await host.join('lobby', 'host', 'create');
+  await guest.join('lobby', 'guest', 'join');
+
+  // The host's peer makes an offer for whoever takes the invite
+  const inviteId = host.createInvite();
+  expect(hostEvents.calls).toEqual([`joined ${inviteId} true`]);
+  host.sendSignal(inviteId, offer);
+  expect(guest.acceptBlob(blobs[0])).toBe(true);
+  expect(guestEvents.calls).toEqual(['signal host offer']);
+
+  // The guest's answer tells the host who it is
+  guest.sendSignal('host', answer);
+  expect(host.acceptBlob(blobs[1])).toBe(true);
+  expect(hostEvents.calls.slice(1)).toEqual([`signal ${inviteId} answer`, `identified ${inviteId} guest`]);
+});
+
+test('pasting something that is not a blob is reported, not thrown', async () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const signaling = new ManualSignaling(() => undefined);
+  signaling.listen(recordEvents().events);
+  await signaling.join('lobby', 'guest', 'join');
+
+  expect(signaling.acceptBlob('hello there')).toBe(false);
+  expect(signaling.acceptBlob(btoa('{"not": "a blob"}'))).toBe(false);
+  expect(warn).toHaveBeenCalledTimes(2);
+  warn.mockRestore();
+});
@@ -0,0 +1,100 @@
+import SimplePeer from 'simple-peer';
+import { v4 as uuidv4 } from 'uuid';
+import { LobbyListing } from '../types';
+import { LobbyJoinMode, SignalingChannel, SignalingEvents } from './types';
+
+interface SignalBlob {
+  fromId: string;
+  toId: string;
+  inviteId: string;
+  data: SimplePeer.SignalData;
+}
+
+const encodeBlob = (blob: SignalBlob): string =>
+  btoa(unescape(encodeURIComponent(JSON.stringify(blob))));
+
+// Pasted text can be anything; null unless it really is a blob
+const decodeBlob = (text: string): SignalBlob | null => {
+  let value: Partial<SignalBlob>;
+  try {
+    value = JSON.parse(decodeURIComponent(escape(atob(text.trim()))));
+  } catch {
+    return null;
+  }
+  const isBlob = typeof value === 'object' && value !== null &&
+    typeof value.fromId === 'string' &&
+    typeof value.toId === 'string' &&
+    typeof value.inviteId === 'string' &&
+    typeof value.data === 'object' && value.data !== null;
+  return isBlob ? value as SignalBlob : null;
+};
+
+// Copy/paste signaling for when there is no server: the host creates an
+// invite blob, the guest pastes it and sends back the answer blob.
+export class ManualSignaling implements SignalingChannel {
+  // Without a server there is exactly one round trip, so ICE must be bundled
+  readonly trickle = false;
+  private selfId: string | null = null;
+  private events: SignalingEvents | null = null;
+  // Which invite each remote peer answered, so replies carry it back
+  private inviteIds: Record<string, string> = {};
+
+  constructor(private onBlob: (blob: string) => void) {}
+
+  listen(events: SignalingEvents) {
+    this.events = events;
+  }
+
+  join(lobbyId: string, selfId: string, mode: LobbyJoinMode): Promise<void> {
+    this.selfId = selfId;
+    return Promise.resolve();
+  }
+
+  // Start a connection to a guest we don't know yet; the offer arrives via onBlob
+  createInvite(): string {
+    const inviteId = `invite-${uuidv4()}`;
+    this.inviteIds[inviteId] = inviteId;
+    this.events?.onPeerJoined(inviteId, true);
+    return inviteId;
+  }
+
+  // Feed in a blob pasted by the user. Returns false, so the UI can say so, when the
+  // text isn't a blob meant for us.
+  acceptBlob(text: string): boolean {
+    if (!this.events || !this.selfId) return false;
+
+    const blob = decodeBlob(text);
+    if (!blob) {
+      console.warn('Pasted text is not a connection blob');
+      return false;
+    }
+    if (blob.toId === this.selfId && this.inviteIds[blob.inviteId]) {
+      // The answer to one of our invites reveals who the guest is
+      delete this.inviteIds[blob.inviteId];
+      this.events.onSignal(blob.inviteId, blob.data);
+      this.events.onPeerIdentified(blob.inviteId, blob.fromId);
+    } else if (blob.toId === blob.inviteId) {
+      // An offer made for whoever accepts the invite
+      this.inviteIds[blob.fromId] = blob.inviteId;
+      this.events.onSignal(blob.fromId, blob.data);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  sendSignal(targetId: string, data: SimplePeer.SignalData) {
+    if (!this.selfId) return;
+
+    const inviteId = this.inviteIds[targetId] ?? targetId;
+    this.onBlob(encodeBlob({ fromId: this.selfId, toId: targetId, inviteId, data }));
+  }
+
+  // There's nowhere to list a lobby without a server
+  publishListing(listing: LobbyListing | null) {}
+
+  leave() {
+    this.selfId = null;
+    this.inviteIds = {};
+  }
+}
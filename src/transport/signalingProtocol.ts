@@ -0,0 +1,39 @@
+import SimplePeer from 'simple-peer';
+import { LobbyListing } from '../types';
+
+// Wire format spoken between WebSocketSignaling and the signaling server
+
+// reconnectToken is the one the server issued with the last 'joined' for this peerId.
+// Only its holder can take the id over from a socket that is still connected.
+export type SignalingClientMessage =
+  | { type: 'create-lobby'; lobbyId: string; peerId: string; reconnectToken?: string }
+  | { type: 'join-lobby'; lobbyId: string; peerId: string; reconnectToken?: string }
+  | { type: 'signal'; targetId: string; data: SimplePeer.SignalData }
+  | { type: 'publish-lobby'; listing: LobbyListing | null } // from any member; null unlists the lobby
+  | { type: 'watch-lobbies' } // receive lobby-list now and whenever it changes
+  | { type: 'leave' };
+
+export type SignalingErrorReason =
+  | 'LOBBY_EXISTS'
+  | 'LOBBY_NOT_FOUND'
+  | 'LOBBY_FULL'
+  | 'PEER_ID_TAKEN'
+  | 'NOT_IN_LOBBY'
+  | 'BAD_REQUEST';
+
+export type SignalingServerMessage =
+  | { type: 'joined'; lobbyId: string; hostId: string; peerIds: string[]; reconnectToken: string } // peerIds: everyone already there
+  | { type: 'peer-joined'; peerId: string }
+  | { type: 'peer-left'; peerId: string }
+  | { type: 'signal'; fromId: string; data: SimplePeer.SignalData }
+  | { type: 'lobby-list'; lobbies: LobbyListing[] }
+  | { type: 'error'; reason: SignalingErrorReason };
+
+export const SIGNALING_ERROR_MESSAGES: Record<SignalingErrorReason, string> = {
+  LOBBY_EXISTS: 'Lobby code already in use',
+  LOBBY_NOT_FOUND: 'Lobby not found',
+  LOBBY_FULL: 'Lobby is full',
+  PEER_ID_TAKEN: 'Someone is already connected with this id',
+  NOT_IN_LOBBY: 'Not connected to a lobby',
+  BAD_REQUEST: 'Invalid signaling request'
+};
@@ -0,0 +1,158 @@
+import SimplePeer from 'simple-peer';
+import { decodeMessage, encodeMessage, PeerMessage } from '../protocol';
+import { LobbyListing, PeerConnectionsType } from '../types';
+import { LobbyJoinMode, MessageHandler, PeersHandler, SignalingChannel, Transport } from './types';
+
+// WebRTC mesh: one simple-peer data channel to every other player in the lobby.
+// How offers and answers reach the other side is left to the SignalingChannel.
+export class SimplePeerTransport implements Transport {
+  private peers: PeerConnectionsType = {};
+  private outbox: Record<string, string[]> = {};
+  private selfId: string | null = null;
+  private messageHandlers = new Set<MessageHandler>();
+  private peersHandlers = new Set<PeersHandler>();
+
+  constructor(
+    private signaling: SignalingChannel,
+    private peerOptions: SimplePeer.Options = {}
+  ) {}
+
+  connect(lobbyId: string, selfId: string, mode: LobbyJoinMode): Promise<void> {
+    this.disconnect();
+    this.selfId = selfId;
+
+    this.signaling.listen({
+      onPeerJoined: (peerId, initiator) => {
+        // A peer we already know joining again has reloaded; its old connection is dead
+        if (this.peers[peerId]) this.removePeer(peerId);
+        this.createPeer(peerId, initiator);
+      },
+      onPeerLeft: peerId => this.removePeer(peerId),
+      onSignal: (fromId, data) => {
+        const peer = this.peers[fromId] ?? this.createPeer(fromId, false);
+        peer.signal(data);
+      },
+      onPeerIdentified: (placeholderId, peerId) => {
+        const peer = this.peers[placeholderId];
+        if (!peer || placeholderId === peerId) return;
+
+        delete this.peers[placeholderId];
+        this.peers[peerId] = peer;
+        this.outbox[peerId] = this.outbox[placeholderId] ?? [];
+        delete this.outbox[placeholderId];
+        this.emitPeersChanged();
+      }
+    });
+
+    return this.signaling.join(lobbyId, selfId, mode);
+  }
+
+  broadcast(message: PeerMessage) {
+    Object.keys(this.peers).forEach(peerId => this.deliver(peerId, encodeMessage(message)));
+  }
+
+  sendTo(peerId: string, message: PeerMessage) {
+    this.deliver(peerId, encodeMessage({ ...message, targetId: peerId }));
+  }
+
+  onMessage(handler: MessageHandler) {
+    this.messageHandlers.add(handler);
+    return () => { this.messageHandlers.delete(handler); };
+  }
+
+  onPeersChanged(handler: PeersHandler) {
+    this.peersHandlers.add(handler);
+    return () => { this.peersHandlers.delete(handler); };
+  }
+
+  getPeerIds() {
+    return Object.keys(this.peers).filter(peerId => this.peers[peerId].connected);
+  }
+
+  publishListing(listing: LobbyListing | null) {
+    this.signaling.publishListing(listing);
+  }
+
+  disconnect() {
+    this.signaling.leave();
+    Object.keys(this.peers).forEach(peerId => this.removePeer(peerId));
+    this.selfId = null;
+  }
+
+  private createPeer(peerId: string, initiator: boolean): SimplePeer.Instance {
+    const peer = new SimplePeer({
+      ...this.peerOptions,
+      initiator,
+      trickle: this.signaling.trickle
+    });
+
+    // The map key can change (see onPeerIdentified), so look it up on every event
+    const currentId = () => Object.keys(this.peers).find(id => this.peers[id] === peer);
+
+    peer.on('signal', data => {
+      const id = currentId();
+      if (id) this.signaling.sendSignal(id, data);
+    });
+
+    peer.on('connect', () => {
+      const id = currentId();
+      if (!id) return;
+
+      (this.outbox[id] ?? []).forEach(data => peer.send(data));
+      this.outbox[id] = [];
+      this.emitPeersChanged();
+    });
+
+    peer.on('data', chunk => {
+      const message = decodeMessage(chunk.toString());
+      if (!message) return;
+      // A connection only ever speaks for the peer at the other end of it
+      if (message.senderId !== currentId()) {
+        console.warn(`Dropped peer message: ${message.type} from ${currentId()} claimed to be from ${message.senderId}`);
+        return;
+      }
+      if (message.targetId && message.targetId !== this.selfId) return;
+      this.messageHandlers.forEach(handler => handler(message));
+    });
+
+    peer.on('close', () => {
+      const id = currentId();
+      if (id) this.removePeer(id);
+    });
+
+    peer.on('error', error => {
+      console.error(`Connection to peer ${currentId()} failed:`, error);
+    });
+
+    this.peers[peerId] = peer;
+    this.outbox[peerId] = [];
+    return peer;
+  }
+
+  private deliver(peerId: string, data: string) {
+    const peer = this.peers[peerId];
+    if (!peer) return;
+
+    // Hold messages until the data channel opens
+    if (peer.connected) {
+      peer.send(data);
+    } else {
+      this.outbox[peerId].push(data);
+    }
+  }
+
+  private removePeer(peerId: string) {
+    const peer = this.peers[peerId];
+    if (!peer) return;
+
+    delete this.peers[peerId];
+    delete this.outbox[peerId];
+    peer.destroy();
+    this.emitPeersChanged();
+  }
+
+  private emitPeersChanged() {
+    const peerIds = this.getPeerIds();
+    this.peersHandlers.forEach(handler => handler(peerIds));
+  }
+}
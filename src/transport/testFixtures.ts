@@ -0,0 +1,22 @@
+import { LocalChannel, LocalChannelFactory } from './localLobbyDirectory';
+
+// Shared setup for the transport tests
+
+// Delivers synchronously to every other open channel with the same name, like BroadcastChannel
+export const createHub = (): LocalChannelFactory => {
+  const open = new Set<{ name: string; channel: LocalChannel }>();
+  return name => {
+    const entry = {
+      name,
+      channel: {
+        onmessage: null,
+        postMessage: (data: unknown) => open.forEach(other => {
+          if (other !== entry && other.name === name) other.channel.onmessage?.({ data } as MessageEvent);
+        }),
+        close: () => { open.delete(entry); }
+      } as LocalChannel
+    };
+    open.add(entry);
+    return entry.channel;
+  };
+};
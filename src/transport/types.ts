@@ -0,0 +1,49 @@
+import SimplePeer from 'simple-peer';
+import { PeerMessage } from '../protocol';
+import { LobbyListing } from '../types';
+
+export type LobbyJoinMode = 'create' | 'join';
+
+export type MessageHandler = (message: PeerMessage) => void;
+export type PeersHandler = (peerIds: string[]) => void;
+
+// Moves PeerMessages between the players of one lobby. connect() rejects with a
+// user-facing Error when the lobby can't be created or joined.
+export interface Transport {
+  connect: (lobbyId: string, selfId: string, mode: LobbyJoinMode) => Promise<void>;
+  broadcast: (message: PeerMessage) => void;
+  sendTo: (peerId: string, message: PeerMessage) => void;
+  onMessage: (handler: MessageHandler) => () => void;
+  onPeersChanged: (handler: PeersHandler) => () => void;
+  getPeerIds: () => string[];
+  // As host, list the lobby in the lobby browser (or take it down with null)
+  publishListing: (listing: LobbyListing | null) => void;
+  disconnect: () => void;
+}
+
+export type ListingsHandler = (listings: LobbyListing[]) => void;
+
+// Watches the public lobbies that can be joined through a transport
+export interface LobbyBrowser {
+  subscribe: (handler: ListingsHandler) => () => void;
+}
+
+export interface SignalingEvents {
+  // A remote peer is reachable; the initiator side creates the WebRTC offer
+  onPeerJoined: (peerId: string, initiator: boolean) => void;
+  onPeerLeft: (peerId: string) => void;
+  onSignal: (fromId: string, data: SimplePeer.SignalData) => void;
+  // A peer first known by a placeholder id has revealed its real id
+  onPeerIdentified: (placeholderId: string, peerId: string) => void;
+}
+
+// Exchanges SDP offers/answers and ICE candidates before a data channel exists
+export interface SignalingChannel {
+  // Whether ICE candidates can be sent one by one or must be bundled into the SDP
+  readonly trickle: boolean;
+  listen: (events: SignalingEvents) => void;
+  join: (lobbyId: string, selfId: string, mode: LobbyJoinMode) => Promise<void>;
+  sendSignal: (targetId: string, data: SimplePeer.SignalData) => void;
+  publishListing: (listing: LobbyListing | null) => void;
+  leave: () => void;
+}
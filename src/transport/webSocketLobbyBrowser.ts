@@ -0,0 +1,31 @@
+import { isSignalingServerMessage } from '../protocol';
+import { ListingsHandler, LobbyBrowser } from './types';
+import { WebSocketLike } from './webSocketSignaling';
+
+// Watches the signaling server's list of public lobbies over a socket of its own
+export class WebSocketLobbyBrowser implements LobbyBrowser {
+  constructor(
+    private url: string,
+    private createSocket: (url: string) => WebSocketLike = url => new WebSocket(url)
+  ) {}
+
+  subscribe(handler: ListingsHandler) {
+    const socket = this.createSocket(this.url);
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'watch-lobbies' }));
+    socket.onmessage = event => {
+      try {
+        const message: unknown = JSON.parse(String(event.data));
+        if (isSignalingServerMessage(message) && message.type === 'lobby-list') handler(message.lobbies);
+      } catch (error) {
+        console.error('Error parsing lobby list:', error);
+      }
+    };
+    socket.onclose = () => handler([]);
+
+    handler([]);
+    return () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  }
+}
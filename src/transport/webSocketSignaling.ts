@@ -0,0 +1,149 @@
+import SimplePeer from 'simple-peer';
+import { isSignalingServerMessage } from '../protocol';
+import { LobbyListing } from '../types';
+import { LobbyJoinMode, SignalingChannel, SignalingEvents } from './types';
+import { SIGNALING_ERROR_MESSAGES, SignalingClientMessage } from './signalingProtocol';
+
+// The subset of the WebSocket API we use, so Node's `ws` can stand in for tests
+export interface WebSocketLike {
+  readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+}
+
+const OPEN = 1;
+
+interface PendingJoin {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Relays signals through the WebSocket signaling server (src/server)
+export class WebSocketSignaling implements SignalingChannel {
+  readonly trickle = true;
+  private socket: WebSocketLike | null = null;
+  private events: SignalingEvents | null = null;
+  private pending: SignalingClientMessage[] = [];
+  private pendingJoin: PendingJoin | null = null;
+  // Lets us take our id back from a socket the server hasn't noticed is dead yet
+  private reconnect: { peerId: string; token: string } | null = null;
+  private joiningAs: string | null = null;
+
+  constructor(
+    private url: string,
+    private createSocket: (url: string) => WebSocketLike = url => new WebSocket(url)
+  ) {}
+
+  listen(events: SignalingEvents) {
+    this.events = events;
+  }
+
+  join(lobbyId: string, selfId: string, mode: LobbyJoinMode): Promise<void> {
+    this.leave();
+
+    const socket = this.createSocket(this.url);
+    socket.onopen = () => {
+      this.pending.forEach(message => socket.send(JSON.stringify(message)));
+      this.pending = [];
+    };
+    socket.onmessage = event => this.handleServerMessage(event.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.settleJoin(new Error('Could not reach the signaling server'));
+    };
+
+    this.socket = socket;
+    this.joiningAs = selfId;
+    const reconnectToken = this.reconnect?.peerId === selfId ? this.reconnect.token : undefined;
+    return new Promise<void>((resolve, reject) => {
+      this.pendingJoin = { resolve, reject };
+      this.send({ type: mode === 'create' ? 'create-lobby' : 'join-lobby', lobbyId, peerId: selfId, reconnectToken });
+    });
+  }
+
+  sendSignal(targetId: string, data: SimplePeer.SignalData) {
+    this.send({ type: 'signal', targetId, data });
+  }
+
+  publishListing(listing: LobbyListing | null) {
+    this.send({ type: 'publish-lobby', listing });
+  }
+
+  leave() {
+    if (!this.socket) return;
+
+    this.send({ type: 'leave' });
+    this.socket.close();
+    this.socket = null;
+    this.pending = [];
+    this.settleJoin(new Error('Left the lobby'));
+  }
+
+  private send(message: SignalingClientMessage) {
+    if (!this.socket) return;
+
+    if (this.socket.readyState === OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else {
+      this.pending.push(message);
+    }
+  }
+
+  private settleJoin(error?: Error) {
+    const pendingJoin = this.pendingJoin;
+    this.pendingJoin = null;
+    if (!pendingJoin) return;
+
+    if (error) {
+      pendingJoin.reject(error);
+    } else {
+      pendingJoin.resolve();
+    }
+  }
+
+  private handleServerMessage(raw: unknown) {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(raw));
+    } catch (error) {
+      console.error('Error parsing signaling message:', error);
+      return;
+    }
+    if (!isSignalingServerMessage(message)) {
+      console.warn('Dropped invalid signaling message');
+      return;
+    }
+
+    switch (message.type) {
+      case 'joined':
+        if (this.joiningAs) this.reconnect = { peerId: this.joiningAs, token: message.reconnectToken };
+        // We are the newcomer, so we make the offers
+        message.peerIds.forEach(peerId => this.events?.onPeerJoined(peerId, true));
+        this.settleJoin();
+        break;
+      case 'peer-joined':
+        this.events?.onPeerJoined(message.peerId, false);
+        break;
+      case 'peer-left':
+        this.events?.onPeerLeft(message.peerId);
+        break;
+      case 'signal':
+        this.events?.onSignal(message.fromId, message.data);
+        break;
+      case 'lobby-list':
+        // Only sent to lobby browsers; see WebSocketLobbyBrowser
+        break;
+      case 'error':
+        if (this.pendingJoin) {
+          this.settleJoin(new Error(SIGNALING_ERROR_MESSAGES[message.reason]));
+        } else {
+          console.error('Signaling server error:', message.reason);
+        }
+        break;
+    }
+  }
+}
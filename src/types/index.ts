@@ -1,3 +1,5 @@
+import SimplePeer from 'simple-peer';
+
 export enum Faction {
   HUMANS = 'HUMANS',
   ALIENS = 'ALIENS',
@@ -22,20 +24,107 @@ export interface Player {
   goldRate: number;
   unitRate: number;
   tiles: Array<{ x: number; y: number }>;
+  team?: number; // 1 to TEAM_COUNT in team matches; players without one play alone
 }
 
 export interface Construct {
   type: ConstructType;
   ownerId: string | null;
+  level: number;    // 1 up to MAX_CONSTRUCT_LEVEL
+  faction: Faction; // whose design it is; captured ones differ from their owner's until converted
 }
 
+export type Terrain = 'plains' | 'mountain' | 'river' | 'gold' | 'forest';
+
 export interface Tile {
   x: number;
   y: number;
+  terrain: Terrain;
   ownerId: string | null;
   color: string | null;
   construct: Construct | null;
-  defenseBonus: number;
+  defenseBonus: number; // from a defense construct on the tile itself
+  claimedAtRevision?: number; // state revision of the last claim, used to detect contested claims
+}
+
+// What happens to a player's territory once their reconnection grace period runs out
+export type DisconnectPolicy = 'freeze' | 'bot' | 'forfeit';
+
+export type PresenceStatus =
+  | 'connected'
+  | 'reconnecting' // inside the grace period
+  | 'frozen' // territory kept, no income, can't win
+  | 'bot' // a simple bot keeps expanding for them
+  | 'forfeited'; // territory returned to neutral for good
+
+export interface PlayerPresence {
+  status: PresenceStatus;
+  disconnectedAtTick: number | null;
+}
+
+// How a match is won. Eliminating everyone else always wins.
+export type WinCondition =
+  | 'territory'   // most tiles when time runs out
+  | 'domination'  // first to hold a share of the map
+  | 'elimination' // no time limit, last player standing
+  | 'economic'    // first to a gold target
+  | 'hill';       // hold the centre tile for a while
+
+// Why a match ended
+export type VictoryReason = 'elimination' | 'domination' | 'economic' | 'hill' | 'timeout';
+
+export interface MatchOutcome {
+  reason: VictoryReason;
+  winningTeam: number | null; // set when a team won; the winner is null then
+  tiedPlayerIds: string[];    // set when the match ended in a draw
+}
+
+// Who holds the centre tile in a king-of-the-hill match, and since when
+export interface HillControl {
+  holderId: string | null;
+  sinceTick: number;
+}
+
+// What happens to a construct on a tile that's captured
+export type ConstructCapture = 'capture' | 'destroy';
+
+// Chosen by the host in the lobby and fixed for the whole match
+export interface MatchSettings {
+  gridSize: number;
+  durationMs: number; // ignored when the match has no time limit
+  maxPlayers: number;
+  startingGold: number;
+  claimCostMultiplier: number;     // applied to the gold and units a claim costs
+  constructCostMultiplier: number; // applied to construct prices
+  winCondition: WinCondition;
+  teamMode: boolean; // allies share adjacency, can't capture each other and win together
+  dominationPercent: number; // share of the map that wins a domination match
+  goldTarget: number;        // gold that wins an economic match
+  hillHoldMs: number;        // how long the centre has to be held
+  mapSeed: number;           // the same seed always generates the same terrain
+  constructCapture: ConstructCapture;
+}
+
+// The result of one attack on an enemy tile, kept so every player can see what happened
+export interface BattleReport {
+  tick: number;
+  attackerId: string;
+  defenderId: string;
+  x: number;
+  y: number;
+  committed: number; // units the attacker sent
+  attack: number;    // strength after support and faction modifiers
+  defense: number;   // strength of the tile, its garrison and its owner's faction
+  chance: number;    // 0 to 1, what the attacker had going in
+  captured: boolean;
+  attackerLosses: number;
+  defenderLosses: number;
+}
+
+// When a player's faction ability can next be used, and until when it lasts
+export interface AbilityState {
+  readyAtTick: number;
+  activeUntilTick: number; // equal to or before the current tick when nothing is active
 }
 
 export interface GameState {
@@ -43,31 +132,266 @@ export interface GameState {
   currentTurn: string;
   grid: Tile[][];
   players: Record<string, Player>;
-  gameEndTime: number | null; // timestamp for when the game ends (5 minutes from start)
+  gameEndTime: number | null; // timestamp for when the game ends, null without a time limit
+  startTime: number; // host-clock timestamp of tick 0
+  tick: number; // fixed simulation steps taken so far
+  revision: number; // bumped by every accepted action
+  lastIntentSeq: Record<string, number>; // latest intent the host processed for each player
+  presence: Record<string, PlayerPresence>;
+  disconnectPolicy: DisconnectPolicy;
+  settings: MatchSettings;
+  hill: HillControl | null; // only tracked in king-of-the-hill matches
+  abilities: Record<string, AbilityState>;
+  battles: BattleReport[]; // most recent last, up to BATTLE_LOG_SIZE
+  capitals: Record<string, { x: number; y: number }>; // where each player's supply lines start
+  unsupplied: Record<string, number>; // "x,y" of tiles cut off from their owner's capital, and the tick they were cut off
   gameOver: boolean;
   winner: string | null;
+  outcome: MatchOutcome | null; // set once the game is over
+}
+
+export type GameAction =
+  | { type: 'CLAIM_TILE'; x: number; y: number }
+  | { type: 'ATTACK_TILE'; x: number; y: number; units: number }
+  | { type: 'BUILD_CONSTRUCT'; x: number; y: number; constructType: ConstructType }
+  | { type: 'UPGRADE_CONSTRUCT'; x: number; y: number }
+  | { type: 'CONVERT_CONSTRUCT'; x: number; y: number }
+  | { type: 'DEMOLISH_CONSTRUCT'; x: number; y: number }
+  | { type: 'USE_ABILITY' };
+
+export type RejectionReason =
+  | 'GAME_OVER'
+  | 'UNKNOWN_PLAYER'
+  | 'OUT_OF_BOUNDS'
+  | 'NOT_ADJACENT'
+  | 'ALREADY_OWNED'
+  | 'NOT_OWNER'
+  | 'INSUFFICIENT_GOLD'
+  | 'INSUFFICIENT_UNITS'
+  | 'TILE_OCCUPIED'
+  | 'NO_CONSTRUCT'
+  | 'MAX_LEVEL'
+  | 'ALREADY_CONVERTED'
+  | 'INVALID_CONSTRUCT'
+  | 'CONTESTED'
+  | 'ALLY_OWNED'
+  | 'ENEMY_OWNED'
+  | 'NOT_ENEMY'
+  | 'NO_UNITS_COMMITTED'
+  | 'IMPASSABLE'
+  | 'ABILITY_COOLDOWN';
+
+export type ActionResult =
+  | { ok: true; state: GameState }
+  | { ok: false; reason: RejectionReason };
+
+// An action as sent to the host, stamped so concurrent intents can be ordered
+export interface ActionIntent {
+  seq: number; // per-player, increasing
+  action: GameAction;
+  baseRevision: number; // revision of the host state the player acted on
+  issuedAtTick: number; // shared-clock tick when the player acted
 }
 
+// Sent by the host to a player whose intent failed validation
+export interface ActionRejection {
+  action: GameAction;
+  seq?: number; // the intent being rejected, when it came from one
+  reason: RejectionReason;
+  contestedBy?: string; // player who won a contested claim
+  refund?: { gold: number; units: number }; // filled in by the client from what it had spent locally
+}
+
+export const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  GAME_OVER: 'The game is over.',
+  UNKNOWN_PLAYER: 'You are not part of this game.',
+  OUT_OF_BOUNDS: 'That tile is off the map.',
+  NOT_ADJACENT: 'You can only claim tiles next to your territory.',
+  ALREADY_OWNED: 'You already own that tile.',
+  NOT_OWNER: 'You can only build on your own tiles.',
+  INSUFFICIENT_GOLD: 'Not enough gold.',
+  INSUFFICIENT_UNITS: 'Not enough units.',
+  TILE_OCCUPIED: 'That tile already has a construct.',
+  NO_CONSTRUCT: 'There is no construct there.',
+  MAX_LEVEL: 'That construct is already fully upgraded.',
+  ALREADY_CONVERTED: 'That construct is already your own design.',
+  INVALID_CONSTRUCT: 'That construct cannot be built.',
+  CONTESTED: 'Another player claimed that tile first.',
+  ALLY_OWNED: 'That tile belongs to an ally.',
+  ENEMY_OWNED: 'That tile is held by an enemy. Attack it instead.',
+  NOT_ENEMY: 'Only enemy tiles can be attacked.',
+  NO_UNITS_COMMITTED: 'Send at least one unit.',
+  IMPASSABLE: 'Mountains cannot be claimed.',
+  ABILITY_COOLDOWN: 'Your ability is not ready yet.'
+};
+
 export interface LobbyState {
   lobbyId: string;
+  name: string;
+  isPublic: boolean; // listed in the lobby browser while waiting for players
+  createdAt: number;
   players: Record<string, Player>;
   host: string;
+  joinOrder: string[]; // player ids, earliest first; decides who takes over as host
+  sessions: Record<string, string>; // player id -> hash of their session token, for rejoining. Host only.
+  disconnectPolicy: DisconnectPolicy;
+  settings: MatchSettings;
+  passwordHash: string | null; // salted hash; joining needs the password when set. Host only.
+  hasPassword: boolean;        // what everyone else sees of it
+  locked: boolean;  // no new players, though seated ones can still rejoin
+  banned: string[]; // player ids the host removed for the lobby's lifetime
   gameStarted: boolean;
 }
 
-export interface PeerMessage {
-  type: 'JOIN_LOBBY' | 'READY_STATE' | 'START_GAME' | 'CLAIM_TILE' | 'GAME_STATE' | 'NEW_PEER' | 'PEER_JOIN' | 'BUILD_CONSTRUCT' | 'DEMOLISH_CONSTRUCT';
-  payload: any;
-  senderId: string;
+// What the lobby browser shows about a public lobby
+export interface LobbyListing {
+  lobbyId: string;
+  name: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  factions: Faction[]; // taken so far
+  hasPassword: boolean;
+  createdAt: number;
+}
+
+// Announced when the host left and another player took over
+export interface HostChange {
+  newHostId: string;
+  previousHostName: string;
+}
+
+// A peer whose game updates broke the rules, and who has voted to remove them
+export interface SuspiciousPeer {
+  peerId: string;
+  reasons: string[]; // most recent last
+  votes: string[];   // ids of players voting to kick
+  kicked: boolean;
+}
+
+export type PeerConnectionsType = Record<string, SimplePeer.Instance>;
+
+// Most players any lobby can hold, whatever its settings
+export const MAX_PLAYERS = 8;
+export const TICK_MS = 100; // one simulation step
+export const TEAM_COUNT = 4;
+export const MAX_CONSTRUCT_LEVEL = 3;
+export const BATTLE_LOG_SIZE = 10;
+export const DISCONNECT_GRACE_MS = 30 * 1000;
+export const DISCONNECT_GRACE_TICKS = DISCONNECT_GRACE_MS / TICK_MS;
+export const UNSUPPLIED_DECAY_MS = 30 * 1000; // cut-off tiles go neutral after this long
+export const UNSUPPLIED_DECAY_TICKS = UNSUPPLIED_DECAY_MS / TICK_MS;
+
+export const DEFAULT_MATCH_SETTINGS: MatchSettings = {
+  gridSize: 24,
+  durationMs: 5 * 60 * 1000, // 5 minutes
+  maxPlayers: 4,
+  startingGold: 0,
+  claimCostMultiplier: 1,
+  constructCostMultiplier: 1,
+  winCondition: 'territory',
+  teamMode: false,
+  dominationPercent: 50,
+  goldTarget: 1000,
+  hillHoldMs: 60 * 1000,
+  mapSeed: 1, // new lobbies roll their own
+  constructCapture: 'capture'
+};
+
+// What the host can choose from in the lobby
+export const MATCH_SETTING_LIMITS = {
+  gridSize: { min: 12, max: 48 },
+  durationMs: { min: 60 * 1000, max: 30 * 60 * 1000 },
+  maxPlayers: { min: 2, max: MAX_PLAYERS },
+  startingGold: { min: 0, max: 500 },
+  costMultiplier: { min: 0.5, max: 3 },
+  dominationPercent: { min: 25, max: 90 },
+  goldTarget: { min: 100, max: 5000 },
+  hillHoldMs: { min: 10 * 1000, max: 5 * 60 * 1000 }
+};
+
+// Map seeds are kept short enough to read out to a friend
+export const MAP_SEED_RANGE = 1000000;
+
+export const WIN_CONDITION_INFO: Record<WinCondition, { name: string; description: string }> = {
+  territory: { name: 'Territory', description: 'Most tiles when time runs out.' },
+  domination: { name: 'Domination', description: 'First to hold the chosen share of the map.' },
+  elimination: { name: 'Elimination', description: 'No time limit. Last player holding tiles wins.' },
+  economic: { name: 'Economic', description: 'First to bank the gold target.' },
+  hill: { name: 'King of the Hill', description: 'Hold the centre tile for the chosen time.' }
+};
+
+// Shown in the lobby next to the win condition; see rankLeaders in engine/victory.ts
+export const TIE_BREAK_DESCRIPTION = 'Ties go to more gold, then more tiles, then more units; otherwise it is a draw.';
+
+// One color per seat, starting with the faction colors. Players who pick the same
+// faction get the next free one, so everyone stays distinguishable on the map.
+export const PLAYER_PALETTE = [
+  '#3498db', // Blue
+  '#2ecc71', // Green
+  '#e74c3c', // Red
+  '#f1c40f', // Yellow
+  '#9b59b6', // Purple
+  '#e67e22', // Orange
+  '#1abc9c', // Teal
+  '#ff6fb5'  // Pink
+];
+
+export const TERRAIN_INFO: Record<Terrain, {
+  name: string;
+  color: string;
+  claimable: boolean;
+  claimCostFactor: number; // applied to a claim's gold cost
+  defense: number;         // added to the units it takes to capture the tile
+  goldRate: number;        // added to the owner's gold rate
+}> = {
+  plains: { name: 'Plains', color: '#444a57', claimable: true, claimCostFactor: 1, defense: 0, goldRate: 0 },
+  mountain: { name: 'Mountain', color: '#1f2229', claimable: false, claimCostFactor: 1, defense: 0, goldRate: 0 },
+  river: { name: 'River', color: '#2b5278', claimable: true, claimCostFactor: 2, defense: 0, goldRate: 0 },
+  gold: { name: 'Gold-rich', color: '#7a6a22', claimable: true, claimCostFactor: 1, defense: 0, goldRate: 0.5 },
+  forest: { name: 'Forest', color: '#2d5a3a', claimable: true, claimCostFactor: 1, defense: 5, goldRate: 0 }
+};
+
+export const DISCONNECT_POLICY_INFO: Record<DisconnectPolicy, { name: string; description: string }> = {
+  freeze: { name: 'Freeze', description: 'Territory stays but earns nothing and cannot win.' },
+  bot: { name: 'Bot', description: 'A bot keeps claiming tiles until the player returns.' },
+  forfeit: { name: 'Forfeit', description: 'All territory returns to neutral.' }
+};
+
+// Multipliers that change how claims play out for a faction. 1 leaves things as they are.
+export interface ClaimModifiers {
+  claimGoldCost: number; // gold the faction pays to claim a tile
+  attack: number;        // strength of the faction's attacks
+  defense: number;       // strength of the faction's tiles when attacked
 }
 
-export type PeerConnectionsType = Record<string, any>; // simple-peer instance
+// Bonuses a faction has for the whole match
+export interface FactionPassives extends ClaimModifiers {
+  constructCost: number;    // multiplier on construct prices
+  goldOutput: number;       // multiplier on what gold constructs make
+  unitOutput: number;       // multiplier on what unit constructs make
+  startingUnitRate: number; // units/s before anything is built
+}
 
-export const GRID_SIZE = 24;
-export const MAX_PLAYERS = 3;
-export const GAME_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+// The one ability a faction can trigger during a match. Its modifiers stack on the
+// passives while it lasts; the grant is paid out once when it's used.
+export interface FactionAbility {
+  name: string;
+  description: string;
+  cooldownMs: number;
+  durationMs: number; // 0 for abilities that only grant resources
+  modifiers: Partial<ClaimModifiers>;
+  grant: { gold: number; units: number };
+}
 
-export const FACTION_INFO = {
+export const FACTION_INFO: Record<Faction, {
+  name: string;
+  constructs: Record<'GOLD' | 'UNIT' | 'DEFENSE', string>;
+  baseColor: string;
+  description: string;
+  passives: FactionPassives;
+  ability: FactionAbility;
+}> = {
   [Faction.HUMANS]: {
     name: 'Humans',
     constructs: {
@@ -76,7 +400,24 @@ export const FACTION_INFO = {
       [ConstructType.DEFENSE]: 'Fort'
     },
     baseColor: '#3498db', // Blue
-    description: 'Balanced and adaptable.'
+    description: 'Balanced and adaptable.',
+    passives: {
+      claimGoldCost: 1,
+      attack: 1,
+      defense: 1,
+      constructCost: 0.75,
+      goldOutput: 1.5,
+      unitOutput: 1,
+      startingUnitRate: 0
+    },
+    ability: {
+      name: 'Call to Arms',
+      description: 'Raise 20 units on the spot.',
+      cooldownMs: 60 * 1000,
+      durationMs: 0,
+      modifiers: {},
+      grant: { gold: 0, units: 20 }
+    }
   },
   [Faction.ALIENS]: {
     name: 'Aliens',
@@ -86,7 +427,24 @@ export const FACTION_INFO = {
       [ConstructType.DEFENSE]: 'Biowall'
     },
     baseColor: '#2ecc71', // Green
-    description: 'Starts with unit production. Expands quickly.'
+    description: 'Starts with unit production. Expands quickly.',
+    passives: {
+      claimGoldCost: 0.8,
+      attack: 1,
+      defense: 0.8,
+      constructCost: 1,
+      goldOutput: 1,
+      unitOutput: 1,
+      startingUnitRate: 1
+    },
+    ability: {
+      name: 'Swarm',
+      description: 'Claims cost half as much gold for 10 seconds.',
+      cooldownMs: 60 * 1000,
+      durationMs: 10 * 1000,
+      modifiers: { claimGoldCost: 0.5 },
+      grant: { gold: 0, units: 0 }
+    }
   },
   [Faction.ROBOTS]: {
     name: 'Robots',
@@ -96,6 +454,23 @@ export const FACTION_INFO = {
       [ConstructType.DEFENSE]: 'Autoturret'
     },
     baseColor: '#e74c3c', // Red
-    description: 'Stronger defenses.'
+    description: 'Stronger defenses.',
+    passives: {
+      claimGoldCost: 1.2,
+      attack: 1,
+      defense: 1.5,
+      constructCost: 1,
+      goldOutput: 1,
+      unitOutput: 1,
+      startingUnitRate: 0
+    },
+    ability: {
+      name: 'Lockdown',
+      description: 'Your tiles defend twice as hard for 15 seconds.',
+      cooldownMs: 75 * 1000,
+      durationMs: 15 * 1000,
+      modifiers: { defense: 2 },
+      grant: { gold: 0, units: 0 }
+    }
   }
-}; 
\ No newline at end of file
+};